@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { env } from "cloudflare:test";
+import { env, createExecutionContext, waitOnExecutionContext } from "cloudflare:test";
 import worker from "./index";
 
-// Mock ExecutionContext
+// Mock ExecutionContext that records waitUntil calls and hands the promises to a
+// real context, which is drained after every test so storage writes finish
+// before isolated storage is reset
+let executionCtx = createExecutionContext();
 const ctx = {
-  waitUntil: vi.fn(),
+  waitUntil: vi.fn((promise: Promise<unknown>) => executionCtx.waitUntil(promise)),
   passThroughOnException: vi.fn(),
 } as unknown as ExecutionContext;
 
@@ -26,10 +29,47 @@ globalThis.caches = {
   },
 } as any;
 
+const SSR_KEY_ID = "test-key";
+const SSR_SECRET = "ssr-test-secret";
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return [...new Uint8Array(signature)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function signSsrToken(
+  method = "POST",
+  pathname = "/1/indexes/*/queries",
+  {
+    keyId = SSR_KEY_ID,
+    secret = SSR_SECRET,
+    timestamp = Math.floor(Date.now() / 1000),
+  } = {}
+): Promise<string> {
+  const signature = await hmacHex(secret, `${timestamp}.${method}.${pathname}`);
+  return `${keyId}.${timestamp}.${signature}`;
+}
+
+// Valid SSR token for POST /1/indexes/*/queries, refreshed before each test
+let ssrToken: string;
+
 describe("Worker Logic", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     env.ALGOLIA_API_KEY = "testtest";
     env.ALGOLIA_APPLICATION_ID = "testtest";
+    env.SSR_SIGNING_KEYS = JSON.stringify({ [SSR_KEY_ID]: SSR_SECRET });
+    env.ALGOLIA_KEY_POLICY = JSON.stringify({ ssr: { restrictIndices: ["*"] } });
+    ssrToken = await signSsrToken();
 
     vi.clearAllMocks();
     // Reset fetch mock
@@ -38,6 +78,11 @@ describe("Worker Logic", () => {
       .mockResolvedValue(new Response('{"hits": []}', { status: 200 }));
   });
 
+  afterEach(async () => {
+    await waitOnExecutionContext(executionCtx);
+    executionCtx = createExecutionContext();
+  });
+
   it("should handle OPTIONS request (CORS)", async () => {
     const request = new Request("https://example.com/1/indexes/*/queries", {
       method: "OPTIONS",
@@ -242,7 +287,7 @@ describe("Worker Logic", () => {
       headers: {
         "Content-Type": "application/json",
         Origin: "https://www.avocadostore.de",
-        "x-ssr-request": "ASDf928gh2efhajsdf!!",
+        "x-ssr-request": ssrToken,
       },
       body: JSON.stringify(validSearchBody),
     };
@@ -291,7 +336,7 @@ describe("Worker Logic", () => {
           "Content-Type": "application/json",
           Origin: "https://www.avocadostore.de",
           "X-AS-Cache-Key": "key-1",
-          "x-ssr-request": "ASDf928gh2efhajsdf!!",
+          "x-ssr-request": ssrToken,
         },
         body: JSON.stringify(body1),
       }),
@@ -318,7 +363,7 @@ describe("Worker Logic", () => {
           "Content-Type": "application/json",
           Origin: "https://www.avocadostore.de",
           "X-AS-Cache-Key": "key-2",
-          "x-ssr-request": "ASDf928gh2efhajsdf!!",
+          "x-ssr-request": ssrToken,
         },
         body: JSON.stringify(body2),
       }),
@@ -519,7 +564,7 @@ describe("Worker Logic", () => {
         headers: {
           "Content-Type": "application/json",
           Origin: "https://www.avocadostore.de",
-          "x-ssr-request": "ASDf928gh2efhajsdf!!",
+          "x-ssr-request": await signSsrToken("POST", "/1/events"),
         },
         body: JSON.stringify(insightsBody),
       });
@@ -534,7 +579,7 @@ describe("Worker Logic", () => {
       expect(fetchUrl).toContain("insights.algolia.io/1/events");
     });
 
-    it("should preserve original request headers when forwarding insights", async () => {
+    it("should forward only allowlisted request headers to insights", async () => {
       const insightsBody = {
         events: [
           {
@@ -567,7 +612,7 @@ describe("Worker Logic", () => {
       // Verify headers were forwarded (header names are lowercase in the headers object)
       expect(fetchOptions.headers["content-type"]).toEqual("application/json");
       expect(fetchOptions.headers["user-agent"]).toEqual("TestAgent/1.0");
-      expect(fetchOptions.headers["x-custom-header"]).toEqual("custom-value");
+      expect(fetchOptions.headers["x-custom-header"]).toBeUndefined();
     });
   });
 
@@ -581,7 +626,7 @@ describe("Worker Logic", () => {
 
     it("should handle GET requests", async () => {
       const request = new Request(
-        "https://example.com/1/indexes/*/queries?query=test",
+        "https://example.com/1/indexes/products_de?query=test",
         {
           method: "GET",
           headers: {
@@ -647,9 +692,7 @@ describe("Worker Logic", () => {
 
       const response = await worker.fetch(request, env, ctx);
 
-      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
-        "https://www.avocadostore.de"
-      );
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
     });
 
     it("should handle request without origin header", async () => {
@@ -668,9 +711,7 @@ describe("Worker Logic", () => {
       const response = await worker.fetch(request, env, ctx);
 
       expect(response.status).toBe(200);
-      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
-        "https://www.avocadostore.de"
-      );
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
     });
 
     it("should NOT cache non-SSR requests even with cacheKey", async () => {
@@ -720,7 +761,7 @@ describe("Worker Logic", () => {
           headers: {
             "Content-Type": "application/json",
             Origin: "https://www.avocadostore.de",
-            "x-ssr-request": "ASDf928gh2efhajsdf!!",
+            "x-ssr-request": ssrToken,
           },
           body: JSON.stringify(validSearchBody),
         }
@@ -806,7 +847,7 @@ describe("Worker Logic", () => {
           headers: {
             "Content-Type": "application/json",
             Origin: "https://www.avocadostore.de",
-            "x-ssr-request": "ASDf928gh2efhajsdf!!",
+            "x-ssr-request": ssrToken,
           },
           body: JSON.stringify(validSearchBody),
         }
@@ -875,7 +916,7 @@ describe("Worker Logic", () => {
           "Content-Type": "application/json",
           Origin: "https://www.avocadostore.de",
           "X-AS-Cache-Key": "header-cache-key",
-          "x-ssr-request": "ASDf928gh2efhajsdf!!",
+          "x-ssr-request": ssrToken,
         },
         body: JSON.stringify(validSearchBody),
       });
@@ -893,7 +934,7 @@ describe("Worker Logic", () => {
         method: "OPTIONS",
         headers: {
           Origin: "https://test.avocadostore.de",
-          "x-ssr-request": "ASDf928gh2efhajsdf!!",
+          "x-ssr-request": await signSsrToken("OPTIONS"),
         },
       });
 
@@ -901,7 +942,7 @@ describe("Worker Logic", () => {
 
       expect(response.status).toBe(204);
       expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
-        "https://www.avocadostore.de"
+        "https://test.avocadostore.de"
       );
     });
 
@@ -966,4 +1007,3198 @@ describe("Worker Logic", () => {
       );
     });
   });
+
+  describe("Server-derived cache keys", () => {
+    const ssrHeaders = () => ({
+      "Content-Type": "application/json",
+      Origin: "https://www.avocadostore.de",
+      "x-ssr-request": ssrToken,
+    });
+
+    const putCacheUrl = async (body: unknown, headers = ssrHeaders()) => {
+      cachePut.mockClear();
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockResolvedValue(new Response('{"results": []}', { status: 200 }));
+
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers,
+          body: JSON.stringify(body),
+        }),
+        env,
+        ctx
+      );
+
+      expect(cachePut).toHaveBeenCalledTimes(1);
+      return cachePut.mock.calls[0][0] as string;
+    };
+
+    it("should cache SSR requests without a client-supplied key", async () => {
+      const cacheUrl = await putCacheUrl({
+        requests: [{ indexName: "test", query: "schok" }],
+      });
+
+      const parsed = new URL(cacheUrl);
+      expect(parsed.pathname).toEqual("/1/indexes/*/queries");
+      expect(parsed.searchParams.get("cacheKey")).toMatch(/^[0-9a-f]{64}$/);
+      expect(parsed.searchParams.get("ssr")).toEqual("1");
+    });
+
+    it("should derive the same key regardless of param order", async () => {
+      const cacheUrl1 = await putCacheUrl({
+        requests: [
+          { indexName: "test", query: "schok", hitsPerPage: 9, page: 0 },
+        ],
+      });
+      const cacheUrl2 = await putCacheUrl({
+        requests: [
+          { page: 0, hitsPerPage: 9, query: "schok", indexName: "test" },
+        ],
+      });
+
+      expect(cacheUrl1).toEqual(cacheUrl2);
+    });
+
+    it("should decode params strings before deriving the key", async () => {
+      const cacheUrl1 = await putCacheUrl({
+        requests: [
+          { indexName: "test", params: "query=schok&hitsPerPage=9" },
+        ],
+      });
+      const cacheUrl2 = await putCacheUrl({
+        requests: [
+          { indexName: "test", params: "hitsPerPage=9&query=schok" },
+        ],
+      });
+
+      expect(cacheUrl1).toEqual(cacheUrl2);
+    });
+
+    it("should derive different keys for different bodies", async () => {
+      const cacheUrl1 = await putCacheUrl({
+        requests: [{ indexName: "test", query: "schok" }],
+      });
+      const cacheUrl2 = await putCacheUrl({
+        requests: [{ indexName: "test2", query: "schok" }],
+      });
+
+      expect(cacheUrl1).not.toEqual(cacheUrl2);
+    });
+
+    it("should ignore client query params when deriving the key", async () => {
+      const body = { requests: [{ indexName: "test", query: "schok" }] };
+
+      cacheMatch.mockResolvedValue(undefined);
+      await worker.fetch(
+        new Request(
+          "https://example.com/1/indexes/*/queries?x-algolia-agent=some-agent",
+          { method: "POST", headers: ssrHeaders(), body: JSON.stringify(body) }
+        ),
+        env,
+        ctx
+      );
+      const cacheUrl1 = cachePut.mock.calls[0][0] as string;
+      const cacheUrl2 = await putCacheUrl(body);
+
+      expect(cacheUrl1).toEqual(cacheUrl2);
+    });
+
+    it("should not cache insights events", async () => {
+      cacheMatch.mockResolvedValue(undefined);
+
+      await worker.fetch(
+        new Request("https://example.com/1/events", {
+          method: "POST",
+          headers: {
+            ...ssrHeaders(),
+            "x-ssr-request": await signSsrToken("POST", "/1/events"),
+          },
+          body: JSON.stringify({ events: [] }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(cacheMatch).not.toHaveBeenCalled();
+      expect(cachePut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Stale-while-revalidate and stale-if-error", () => {
+    const ssrRequest = () =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Origin: "https://www.avocadostore.de",
+          "x-ssr-request": ssrToken,
+        },
+        body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+      });
+
+    const cachedEntry = (ageSeconds: number) =>
+      new Response('{"cached": true}', {
+        status: 200,
+        headers: { "X-AS-Cached-At": String(Date.now() - ageSeconds * 1000) },
+      });
+
+    const flushWaitUntil = () =>
+      Promise.all((ctx.waitUntil as any).mock.calls.map((call: any) => call[0]));
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      env.CACHE_STALE_WHILE_REVALIDATE = "300";
+      env.CACHE_STALE_IF_ERROR = "3600";
+    });
+
+    afterEach(() => {
+      delete env.CACHE_STALE_WHILE_REVALIDATE;
+      delete env.CACHE_STALE_IF_ERROR;
+    });
+
+    it("should serve fresh entries within the soft TTL", async () => {
+      cacheMatch.mockResolvedValue(cachedEntry(100));
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(await response.text()).toEqual('{"cached": true}');
+      expect(response.headers.get("X-Cache")).toEqual("HIT");
+      expect(response.headers.get("X-AS-Cached-At")).toBeNull();
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should serve stale entries and revalidate in the background", async () => {
+      cacheMatch.mockResolvedValue(cachedEntry(700));
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(await response.text()).toEqual('{"cached": true}');
+      expect(response.headers.get("X-Cache")).toEqual("STALE");
+      expect(response.headers.get("X-AS-Cached-At")).toBeNull();
+
+      await flushWaitUntil();
+      expect(globalThis.fetch).toHaveBeenCalled();
+      expect(cachePut).toHaveBeenCalled();
+      const refreshed = cachePut.mock.calls[0][1] as Response;
+      expect(refreshed.headers.get("X-AS-Cached-At")).toBeDefined();
+      expect(refreshed.headers.get("Cache-Control")).toEqual(
+        "public, max-age=600, s-maxage=4200"
+      );
+    });
+
+    it("should fetch from Algolia beyond the stale-while-revalidate window", async () => {
+      cacheMatch.mockResolvedValue(cachedEntry(1000));
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(await response.text()).toEqual('{"hits": []}');
+      expect(response.headers.get("X-Cache")).toEqual("MISS");
+    });
+
+    it("should serve stale entries when Algolia fails", async () => {
+      cacheMatch.mockResolvedValue(cachedEntry(1000));
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toEqual('{"cached": true}');
+      expect(response.headers.get("X-Cache")).toEqual("STALE");
+      expect(cachePut).not.toHaveBeenCalled();
+    });
+
+    it("should return 502 when the entry is older than the stale-if-error window", async () => {
+      cacheMatch.mockResolvedValue(cachedEntry(5000));
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(response.status).toBe(502);
+    });
+  });
+
+  describe("Upstream request coalescing", () => {
+    const ssrRequest = (query = "schok") =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Origin: "https://www.avocadostore.de",
+          "x-ssr-request": ssrToken,
+        },
+        body: JSON.stringify({ requests: [{ indexName: "test", query }] }),
+      });
+
+    const delayedFetch = () =>
+      vi.fn().mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(
+              () => resolve(new Response('{"hits": []}', { status: 200 })),
+              20
+            )
+          )
+      );
+
+    beforeEach(() => {
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = delayedFetch();
+    });
+
+    afterEach(() => {
+      delete env.CACHE_COALESCE_MODE;
+    });
+
+    it("should share one Algolia call between concurrent identical misses", async () => {
+      const responses = await Promise.all([
+        worker.fetch(ssrRequest(), env, ctx),
+        worker.fetch(ssrRequest(), env, ctx),
+        worker.fetch(ssrRequest(), env, ctx),
+      ]);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      for (const response of responses) {
+        expect(response.status).toBe(200);
+        expect(await response.text()).toEqual('{"hits": []}');
+      }
+      // Only the request that performed the upstream call stores the result
+      expect(cachePut).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not coalesce misses for different cache keys", async () => {
+      await Promise.all([
+        worker.fetch(ssrRequest("schok"), env, ctx),
+        worker.fetch(ssrRequest("bambus"), env, ctx),
+      ]);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should call Algolia for every miss when coalescing is off", async () => {
+      env.CACHE_COALESCE_MODE = "off";
+
+      await Promise.all([
+        worker.fetch(ssrRequest(), env, ctx),
+        worker.fetch(ssrRequest(), env, ctx),
+      ]);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should coalesce through the CacheLock Durable Object", async () => {
+      env.CACHE_COALESCE_MODE = "durable_object";
+
+      const responses = await Promise.all([
+        worker.fetch(ssrRequest(), env, ctx),
+        worker.fetch(ssrRequest(), env, ctx),
+      ]);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      for (const response of responses) {
+        expect(await response.text()).toEqual('{"hits": []}');
+      }
+      // The lock does not store the result, so each caller writes it to the cache
+      expect(cachePut).toHaveBeenCalledTimes(2);
+    });
+
+    it("should scope the CacheLock to the colo serving the request", async () => {
+      env.CACHE_COALESCE_MODE = "durable_object";
+      const idFromName = vi.spyOn(env.CACHE_LOCK!, "idFromName");
+
+      await worker.fetch(
+        new Request(ssrRequest(), { cf: { colo: "FRA" } as RequestInitCfProperties }),
+        env,
+        ctx
+      );
+
+      expect(idFromName).toHaveBeenCalledWith(expect.stringMatching(/^FRA:https:\/\//));
+      idFromName.mockRestore();
+    });
+
+    it("should release the key once the upstream call settles", async () => {
+      await worker.fetch(ssrRequest(), env, ctx);
+      await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Cache purge API", () => {
+    const purgeRequest = (payload: unknown, token = "admin-secret") =>
+      new Request("https://example.com/_admin/cache/purge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+    const searchBody = { requests: [{ indexName: "products_purge", query: "schok" }] };
+
+    beforeEach(() => {
+      env.ADMIN_API_TOKEN = "admin-secret";
+      cacheDelete.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      delete env.ADMIN_API_TOKEN;
+    });
+
+    it("should return 404 when no admin token is configured", async () => {
+      delete env.ADMIN_API_TOKEN;
+
+      const response = await worker.fetch(purgeRequest({ cacheKey: "key-1" }), env, ctx);
+
+      expect(response.status).toBe(404);
+      expect(cacheDelete).not.toHaveBeenCalled();
+    });
+
+    it("should reject requests with a wrong token", async () => {
+      const response = await worker.fetch(
+        purgeRequest({ cacheKey: "key-1" }, "wrong"),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(401);
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("unauthorized");
+      expect(cacheDelete).not.toHaveBeenCalled();
+    });
+
+    it("should purge SSR and client entries for a client key", async () => {
+      const response = await worker.fetch(purgeRequest({ cacheKey: "key-1" }), env, ctx);
+
+      expect(response.status).toBe(200);
+      const json = (await response.json()) as any;
+      expect(json.purged).toBe(2);
+      const deleted = cacheDelete.mock.calls.map((call) => call[0] as string);
+      expect(deleted).toContain(
+        "https://algolia-cache.internal/1/indexes/*/queries?cacheKey=key-1&ssr=1"
+      );
+      expect(deleted).toContain(
+        "https://algolia-cache.internal/1/indexes/*/queries?cacheKey=key-1&ssr=0"
+      );
+    });
+
+    it("should report only entries that were actually removed", async () => {
+      cacheDelete.mockResolvedValueOnce(true).mockResolvedValue(false);
+
+      const response = await worker.fetch(
+        purgeRequest({ cacheKeys: ["key-1", "key-2"] }),
+        env,
+        ctx
+      );
+
+      const json = (await response.json()) as any;
+      expect(json.checked).toBe(4);
+      expect(json.purged).toBe(1);
+    });
+
+    it("should purge the entry derived from a search body", async () => {
+      cacheMatch.mockResolvedValue(undefined);
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-ssr-request": ssrToken,
+          },
+          body: JSON.stringify(searchBody),
+        }),
+        env,
+        ctx
+      );
+      const cacheUrl = cachePut.mock.calls[0][0] as string;
+
+      await worker.fetch(purgeRequest({ body: searchBody }), env, ctx);
+
+      const deleted = cacheDelete.mock.calls.map((call) => call[0] as string);
+      expect(deleted).toContain(cacheUrl);
+    });
+
+    it("should purge all registered entries for an index", async () => {
+      cacheMatch.mockResolvedValue(undefined);
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-ssr-request": ssrToken,
+          },
+          body: JSON.stringify(searchBody),
+        }),
+        env,
+        ctx
+      );
+      await Promise.all((ctx.waitUntil as any).mock.calls.map((call: any) => call[0]));
+      const cacheUrl = cachePut.mock.calls[0][0] as string;
+
+      const response = await worker.fetch(
+        purgeRequest({ indexName: "products_purge" }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      const deleted = cacheDelete.mock.calls.map((call) => call[0] as string);
+      expect(deleted).toEqual([cacheUrl]);
+
+      // Keys stay registered so purges in other colos still find them
+      cacheDelete.mockClear();
+      await worker.fetch(purgeRequest({ indexName: "products_purge" }), env, ctx);
+      expect(cacheDelete.mock.calls.map((call) => call[0] as string)).toEqual([cacheUrl]);
+    });
+
+    it("should spread registrations over registry shards and purge all of them", async () => {
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": []}', { status: 200 }));
+      const idFromName = vi.spyOn(env.CACHE_REGISTRY!, "idFromName");
+      const search = (query: string) =>
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken },
+          body: JSON.stringify({ requests: [{ indexName: "products_shards", query }] }),
+        });
+
+      for (const query of ["schok", "bambus", "zahnbuerste", "seife", "kaffee", "tee"]) {
+        await worker.fetch(search(query), env, ctx);
+      }
+      await Promise.all((ctx.waitUntil as any).mock.calls.map((call: any) => call[0]));
+      const registered = new Set(idFromName.mock.calls.map((call) => call[0]));
+      expect(registered.size).toBeGreaterThan(1);
+      for (const name of registered) {
+        expect(name).toMatch(/^default:products_shards:\d+$/);
+      }
+
+      idFromName.mockClear();
+      const response = await worker.fetch(purgeRequest({ indexName: "products_shards" }), env, ctx);
+
+      expect(((await response.json()) as any).checked).toBe(6);
+      expect(idFromName).toHaveBeenCalledTimes(16);
+      idFromName.mockRestore();
+    });
+
+    it("should reject purge bodies that are not JSON objects", async () => {
+      for (const payload of [null, "key-1", ["key-1"]]) {
+        const response = await worker.fetch(purgeRequest(payload), env, ctx);
+
+        expect(response.status).toBe(400);
+        const json = (await response.json()) as any;
+        expect(json.errorType).toEqual("malformed_json");
+      }
+      expect(cacheDelete).not.toHaveBeenCalled();
+    });
+
+    it("should reject purge requests without targets", async () => {
+      const response = await worker.fetch(purgeRequest({}), env, ctx);
+
+      expect(response.status).toBe(400);
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("bad_request");
+    });
+  });
+
+  describe("Index generations and reindex webhook", () => {
+    const searchBody = {
+      requests: [{ indexName: "products_reindex", query: "schok" }],
+    };
+
+    const ssrRequest = () =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-ssr-request": ssrToken,
+        },
+        body: JSON.stringify(searchBody),
+      });
+
+    const sign = async (secret: string, message: string) => {
+      const encoder = new TextEncoder();
+      const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+      );
+      const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+      return [...new Uint8Array(signature)]
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+    };
+
+    const webhookRequest = async (
+      payload: unknown,
+      { secret = "webhook-secret", timestamp = Math.floor(Date.now() / 1000) } = {}
+    ) => {
+      const rawBody = JSON.stringify(payload);
+      return new Request("https://example.com/_webhooks/reindex", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-AS-Timestamp": String(timestamp),
+          "X-AS-Signature": `sha256=${await sign(secret, `${timestamp}.${rawBody}`)}`,
+        },
+        body: rawBody,
+      });
+    };
+
+    // Runs the worker against the in-memory stand-in instead of the KV namespace
+    const withoutKv = () => {
+      const { CACHE_GENERATIONS: _kv, ...localEnv } = env;
+      return localEnv as any;
+    };
+
+    beforeEach(() => {
+      env.REINDEX_WEBHOOK_SECRET = "webhook-secret";
+      cacheMatch.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      delete env.REINDEX_WEBHOOK_SECRET;
+    });
+
+    it("should tag cached responses with index names and generations", async () => {
+      await worker.fetch(ssrRequest(), env, ctx);
+
+      const cached = cachePut.mock.calls[0][1] as Response;
+      expect(cached.headers.get("Cache-Tag")).toEqual("products_reindex");
+      expect(cached.headers.get("X-AS-Generations")).toEqual("products_reindex=0");
+    });
+
+    it("should not send cache tags and generations to clients", async () => {
+      cacheMatch.mockResolvedValue(
+        new Response('{"cached": true}', {
+          headers: { "Cache-Tag": "products_reindex", "X-AS-Generations": "products_reindex=0" },
+        })
+      );
+
+      const response = await worker.fetch(ssrRequest(), env, ctx);
+
+      expect(response.headers.get("X-Cache")).toEqual("HIT");
+      expect(response.headers.get("Cache-Tag")).toBeNull();
+      expect(response.headers.get("X-AS-Generations")).toBeNull();
+    });
+
+    it.each([null, "products_reindex", ["products_reindex"]])(
+      "should reject the webhook body %j",
+      async (payload) => {
+        const response = await worker.fetch(await webhookRequest(payload), env, ctx);
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).errorType).toEqual("malformed_json");
+      }
+    );
+
+    it("should reject webhooks with an invalid signature", async () => {
+      const response = await worker.fetch(
+        await webhookRequest({ indexName: "products_reindex" }, { secret: "wrong" }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject webhooks with an outdated timestamp", async () => {
+      const response = await worker.fetch(
+        await webhookRequest(
+          { indexName: "products_reindex" },
+          { timestamp: Math.floor(Date.now() / 1000) - 3600 }
+        ),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should bump the generation so existing entries miss", async () => {
+      const response = await worker.fetch(
+        await webhookRequest({ indexNames: ["products_kv"] }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      const json = (await response.json()) as any;
+      expect(json.generations.products_kv).toBe(1);
+      expect(await env.CACHE_GENERATIONS.get("generation:default:products_kv")).toEqual("1");
+    });
+
+    it("should invalidate entries using the local generation store", async () => {
+      const cachedEntry = () =>
+        new Response('{"cached": true}', {
+          status: 200,
+          headers: { "X-AS-Generations": "products_reindex=0" },
+        });
+
+      cacheMatch.mockResolvedValue(cachedEntry());
+      const before = await worker.fetch(ssrRequest(), withoutKv(), ctx);
+      expect(await before.text()).toEqual('{"cached": true}');
+
+      const webhook = await worker.fetch(
+        await webhookRequest({ indexName: "products_reindex" }),
+        withoutKv(),
+        ctx
+      );
+      expect(webhook.status).toBe(200);
+
+      cacheMatch.mockResolvedValue(cachedEntry());
+      const after = await worker.fetch(ssrRequest(), withoutKv(), ctx);
+      expect(await after.text()).toEqual('{"hits": []}');
+      const stored = cachePut.mock.calls[0][1] as Response;
+      expect(stored.headers.get("X-AS-Generations")).toEqual("products_reindex=1");
+    });
+  });
+
+  describe("Per-index and per-path TTL policy", () => {
+    const searchRequest = (indexNames: string[], ssr = true) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(ssr ? { "x-ssr-request": ssrToken } : {}),
+        },
+        body: JSON.stringify({
+          requests: indexNames.map((indexName) => ({ indexName, query: "schok" })),
+        }),
+      });
+
+    const storedMaxAge = () => {
+      const cached = cachePut.mock.calls[0][1] as Response;
+      return cached.headers.get("Cache-Control")?.match(/max-age=(\d+)/)?.[1];
+    };
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      cacheMatch.mockResolvedValue(undefined);
+      env.CACHE_TTL_POLICY = JSON.stringify([
+        { index: "*_query_suggestions", ssr: 86400, client: 3600 },
+        { index: "products_de", ssr: 300 },
+        { path: "/1/indexes/*/facets/*/query", ssr: 1800 },
+        { index: "products_nocache", ssr: 0 },
+      ]);
+    });
+
+    afterEach(() => {
+      delete env.CACHE_TTL_POLICY;
+      delete env.CACHE_SPLIT_QUERIES;
+    });
+
+    it("should apply the TTL of the matching index rule", async () => {
+      await worker.fetch(searchRequest(["products_de_query_suggestions"]), env, ctx);
+
+      expect(storedMaxAge()).toEqual("86400");
+    });
+
+    it("should use the shortest TTL when several indices are queried", async () => {
+      env.CACHE_SPLIT_QUERIES = "false";
+
+      await worker.fetch(
+        searchRequest(["products_de_query_suggestions", "products_de"]),
+        env,
+        ctx
+      );
+
+      expect(storedMaxAge()).toEqual("300");
+    });
+
+    it("should fall back to the global TTL for unmatched indices", async () => {
+      env.CACHE_SPLIT_QUERIES = "false";
+
+      await worker.fetch(
+        searchRequest(["products_de_query_suggestions", "other_index"]),
+        env,
+        ctx
+      );
+
+      expect(storedMaxAge()).toEqual("600");
+    });
+
+    it("should match path rules against the Algolia path", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/products_fr/facets/brand/query", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-ssr-request": await signSsrToken(
+              "POST",
+              "/1/indexes/products_fr/facets/brand/query"
+            ),
+          },
+          body: JSON.stringify({ facetQuery: "ava" }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(storedMaxAge()).toEqual("1800");
+    });
+
+    it("should cache client requests when a rule sets a client TTL", async () => {
+      await worker.fetch(
+        searchRequest(["products_de_query_suggestions"], false),
+        env,
+        ctx
+      );
+
+      expect(storedMaxAge()).toEqual("3600");
+    });
+
+    it("should not cache when a rule sets a TTL of 0", async () => {
+      await worker.fetch(searchRequest(["products_nocache"]), env, ctx);
+
+      expect(cacheMatch).not.toHaveBeenCalled();
+      expect(cachePut).not.toHaveBeenCalled();
+    });
+
+    it("should ignore an invalid policy", async () => {
+      env.CACHE_TTL_POLICY = "{ not json";
+
+      const response = await worker.fetch(searchRequest(["products_de"]), env, ctx);
+
+      expect(response.status).toBe(200);
+      expect(storedMaxAge()).toEqual("600");
+    });
+  });
+
+  describe("Signed SSR tokens", () => {
+    const searchRequest = (token: string) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Origin: "https://shop.avocadostore.de",
+          "x-ssr-request": token,
+        },
+        body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+      });
+
+    let warnSpy: ReturnType<typeof vi.spyOn>;
+
+    const rejectionReasons = () =>
+      warnSpy.mock.calls
+        .map((call: any) => call[0])
+        .filter((log: any) => log?.message?.startsWith("[SSR]"))
+        .map((log: any) => log.reason);
+
+    beforeEach(() => {
+      cacheMatch.mockResolvedValue(undefined);
+      warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+    });
+
+    it("should treat a valid token as an SSR request", async () => {
+      const response = await worker.fetch(searchRequest(ssrToken), env, ctx);
+
+      expect(cachePut).toHaveBeenCalled();
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://shop.avocadostore.de"
+      );
+    });
+
+    it("should accept tokens signed with any active key during rotation", async () => {
+      env.SSR_SIGNING_KEYS = JSON.stringify({
+        [SSR_KEY_ID]: SSR_SECRET,
+        "next-key": "next-secret",
+      });
+      const token = await signSsrToken("POST", "/1/indexes/*/queries", {
+        keyId: "next-key",
+        secret: "next-secret",
+      });
+
+      await worker.fetch(searchRequest(token), env, ctx);
+
+      expect(cachePut).toHaveBeenCalled();
+    });
+
+    it("should reject the former hard-coded header value", async () => {
+      const response = await worker.fetch(searchRequest("ASDf928gh2efhajsdf!!"), env, ctx);
+
+      expect(response.status).toBe(200);
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://shop.avocadostore.de"
+      );
+      expect(rejectionReasons()).toEqual(["malformed"]);
+    });
+
+    it("should reject tokens signed with an unknown key", async () => {
+      const token = await signSsrToken("POST", "/1/indexes/*/queries", {
+        keyId: "retired-key",
+      });
+
+      await worker.fetch(searchRequest(token), env, ctx);
+
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(rejectionReasons()).toEqual(["unknown_key"]);
+    });
+
+    it("should reject expired tokens", async () => {
+      const token = await signSsrToken("POST", "/1/indexes/*/queries", {
+        timestamp: Math.floor(Date.now() / 1000) - 3600,
+      });
+
+      await worker.fetch(searchRequest(token), env, ctx);
+
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(rejectionReasons()).toEqual(["expired"]);
+    });
+
+    it("should reject tokens signed for a different path", async () => {
+      const token = await signSsrToken("POST", "/1/events");
+
+      await worker.fetch(searchRequest(token), env, ctx);
+
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(rejectionReasons()).toEqual(["bad_signature"]);
+    });
+
+    it("should reject tokens signed with a wrong secret", async () => {
+      const token = await signSsrToken("POST", "/1/indexes/*/queries", {
+        secret: "wrong-secret",
+      });
+
+      await worker.fetch(searchRequest(token), env, ctx);
+
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(rejectionReasons()).toEqual(["bad_signature"]);
+    });
+  });
+
+  describe("Secured API keys", () => {
+    const searchRequest = (headers: Record<string, string> = {}) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ requests: [{ indexName: "products_de", query: "schok" }] }),
+      });
+
+    const forwardedApiKey = () => {
+      const fetchCall = (globalThis.fetch as any).mock.calls[0];
+      return new URL(fetchCall[0]).searchParams.get("x-algolia-api-key") as string;
+    };
+
+    const decodeSecuredKey = (securedKey: string) => {
+      const decoded = atob(securedKey);
+      return { hmac: decoded.slice(0, 64), queryParameters: decoded.slice(64) };
+    };
+
+    beforeEach(() => {
+      cacheMatch.mockResolvedValue(undefined);
+      env.ALGOLIA_KEY_POLICY = JSON.stringify({
+        ssr: { restrictIndices: ["products_de", "products_de_query_suggestions"] },
+        client: {
+          restrictIndices: ["products_de"],
+          filters: "visible:true AND stock > 0",
+          validity: 300,
+        },
+        origins: {
+          "https://b2b.avocadostore.de": { restrictIndices: ["products_b2b"] },
+        },
+      });
+    });
+
+    afterEach(() => {
+      delete env.ALGOLIA_KEY_POLICY;
+      delete env.CACHE_TTL_CLIENT;
+    });
+
+    it("should forward a secured key in Algolia's format", async () => {
+      await worker.fetch(searchRequest({ Origin: "https://www.avocadostore.de" }), env, ctx);
+
+      const securedKey = forwardedApiKey();
+      expect(securedKey).not.toEqual("testtest");
+
+      const { hmac, queryParameters } = decodeSecuredKey(securedKey);
+      expect(hmac).toEqual(await hmacHex("testtest", queryParameters));
+
+      const restrictions = new URLSearchParams(queryParameters);
+      expect(restrictions.get("restrictIndices")).toEqual("products_de");
+      expect(restrictions.get("filters")).toEqual("visible:true AND stock > 0");
+      expect(queryParameters).toContain("filters=visible%3Atrue%20AND%20stock%20%3E%200");
+
+      const validUntil = parseInt(restrictions.get("validUntil") as string, 10);
+      const now = Math.floor(Date.now() / 1000);
+      expect(validUntil).toBeGreaterThan(now);
+      expect(validUntil).toBeLessThanOrEqual(now + 300);
+    });
+
+    it("should use the SSR restrictions for SSR requests", async () => {
+      await worker.fetch(searchRequest({ "x-ssr-request": ssrToken }), env, ctx);
+
+      const { queryParameters } = decodeSecuredKey(forwardedApiKey());
+      expect(queryParameters).toEqual(
+        "restrictIndices=products_de%2Cproducts_de_query_suggestions"
+      );
+    });
+
+    it("should use origin-specific restrictions and partition the cache", async () => {
+      env.CACHE_TTL_CLIENT = "60";
+
+      await worker.fetch(searchRequest({ Origin: "https://b2b.avocadostore.de" }), env, ctx);
+
+      const { queryParameters } = decodeSecuredKey(forwardedApiKey());
+      expect(queryParameters).toEqual("restrictIndices=products_b2b");
+      const cacheUrl = new URL(cachePut.mock.calls[0][0] as string);
+      expect(cacheUrl.searchParams.get("scope")).toEqual(
+        "origin:https://b2b.avocadostore.de"
+      );
+    });
+
+    it("should forward the parent key when no policy applies", async () => {
+      env.ALGOLIA_KEY_POLICY = JSON.stringify({ ssr: { restrictIndices: ["products_de"] } });
+
+      await worker.fetch(searchRequest({ Origin: "https://www.avocadostore.de" }), env, ctx);
+
+      expect(forwardedApiKey()).toEqual("testtest");
+    });
+
+    it("should keep the parent key for insights events", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ events: [] }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(forwardedApiKey()).toEqual("testtest");
+    });
+
+    it.each([
+      ["unset", undefined],
+      ["invalid", "{"],
+      ["empty", "{}"],
+      ["missing ssr and client", JSON.stringify({ origins: {} })],
+    ])("should reject requests when the policy is %s", async (_, policy) => {
+      if (policy === undefined) {
+        delete env.ALGOLIA_KEY_POLICY;
+      } else {
+        env.ALGOLIA_KEY_POLICY = policy;
+      }
+
+      const response = await worker.fetch(searchRequest(), env, ctx);
+      env.READY_TOKEN = "ready-secret";
+      const ready = await worker.fetch(
+        new Request("https://example.com/_ready", {
+          headers: { Authorization: "Bearer ready-secret" },
+        }),
+        env,
+        ctx
+      );
+      delete env.READY_TOKEN;
+
+      expect(response.status).toBe(500);
+      expect(((await response.json()) as any).errorType).toEqual("config_error");
+      expect(ready.status).toBe(503);
+      expect(((await ready.json()) as any).config.algolia_key_policy).toBe(false);
+      expect(vi.mocked(globalThis.fetch).mock.calls.map((call) => call[0] as string)).toEqual(
+        expect.not.arrayContaining([expect.stringContaining("/1/indexes/")])
+      );
+    });
+  });
+
+  describe("Rate limiting", () => {
+    const searchRequest = (ip: string, headers: Record<string, string> = {}) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Origin: "https://www.avocadostore.de",
+          "CF-Connecting-IP": ip,
+          ...headers,
+        },
+        body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+      });
+
+    const statuses = async (requests: (() => Request)[], testEnv: any = env) => {
+      const result: number[] = [];
+      for (const request of requests) {
+        result.push((await worker.fetch(request(), testEnv, ctx)).status);
+      }
+      return result;
+    };
+
+    beforeEach(() => {
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"hits": []}', { status: 200 }));
+      env.RATE_LIMIT_POLICY = JSON.stringify({
+        search: { capacity: 2, refillPerSecond: 0.01 },
+        insights: { capacity: 1, refillPerSecond: 0.01 },
+      });
+    });
+
+    afterEach(() => {
+      delete env.RATE_LIMIT_POLICY;
+    });
+
+    it("should return 429 with Retry-After once the bucket is empty", async () => {
+      const request = () => searchRequest("203.0.113.1");
+
+      expect(await statuses([request, request])).toEqual([200, 200]);
+
+      const response = await worker.fetch(request(), env, ctx);
+      expect(response.status).toBe(429);
+      expect(parseInt(response.headers.get("Retry-After") as string, 10)).toBeGreaterThan(0);
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.de"
+      );
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("rate_limited");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep separate buckets per IP but not per origin", async () => {
+      const first = () => searchRequest("203.0.113.2");
+      const otherIp = () => searchRequest("203.0.113.3");
+      const otherOrigin = () =>
+        searchRequest("203.0.113.2", { Origin: "https://shop.avocadostore.de" });
+
+      expect(await statuses([first, first, first])).toEqual([200, 200, 429]);
+      expect(await statuses([otherIp, otherOrigin])).toEqual([200, 429]);
+    });
+
+    it("should limit insights events with their own bucket", async () => {
+      const event = () =>
+        new Request("https://example.com/1/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "CF-Connecting-IP": "203.0.113.4" },
+          body: JSON.stringify({ events: [] }),
+        });
+
+      expect(await statuses([event, event])).toEqual([200, 429]);
+      expect(await statuses([() => searchRequest("203.0.113.4")])).toEqual([200]);
+    });
+
+    it("should exempt SSR requests unless they have a budget", async () => {
+      const ssr = () => searchRequest("203.0.113.5", { "x-ssr-request": ssrToken });
+
+      expect(await statuses([ssr, ssr, ssr])).toEqual([200, 200, 200]);
+
+      env.RATE_LIMIT_POLICY = JSON.stringify({ ssr: { capacity: 1, refillPerSecond: 0.01 } });
+      expect(await statuses([ssr, ssr])).toEqual([200, 429]);
+    });
+
+    it("should limit per isolate without the Durable Object binding", async () => {
+      const { RATE_LIMITER: _limiter, ...localEnv } = env;
+      const request = () => searchRequest("203.0.113.6");
+
+      expect(await statuses([request, request, request], localEnv)).toEqual([
+        200, 200, 429,
+      ]);
+    });
+  });
+
+  describe("Multi-query splitting", () => {
+    let cacheStore: Map<string, Response>;
+
+    const multiQuery = (queries: string[], extra: Record<string, unknown> = {}) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken },
+        body: JSON.stringify({
+          requests: queries.map((query) => ({ indexName: "products_de", query })),
+          ...extra,
+        }),
+      });
+
+    const upstreamQueries = (call: number) =>
+      JSON.parse((vi.mocked(globalThis.fetch).mock.calls[call][1] as RequestInit).body as string)
+        .requests.map((request: { query: string }) => request.query);
+
+    const flushWaitUntil = () =>
+      Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      cacheStore = new Map();
+      cachePut.mockImplementation(async (url: string, response: Response) => {
+        cacheStore.set(url, response);
+      });
+      cacheMatch.mockImplementation(async (url: string) => cacheStore.get(url)?.clone());
+      globalThis.fetch = vi.fn().mockImplementation(async (_url, init: RequestInit) => {
+        const { requests } = JSON.parse(init.body as string);
+        return new Response(
+          JSON.stringify({
+            results: requests.map((request: { query: string }) => ({
+              query: request.query,
+              hits: [],
+            })),
+          }),
+          { status: 200 }
+        );
+      });
+    });
+
+    afterEach(() => {
+      delete env.CACHE_SPLIT_QUERIES;
+    });
+
+    it("should store every query of a batch separately", async () => {
+      const response = await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+      await flushWaitUntil();
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(cachePut).toHaveBeenCalledTimes(2);
+      const json = (await response.json()) as { results: { query: string }[] };
+      expect(json.results.map((result) => result.query)).toEqual(["schok", "bambus"]);
+    });
+
+    it("should only send uncached queries upstream and keep the original order", async () => {
+      await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+      await flushWaitUntil();
+
+      const response = await worker.fetch(multiQuery(["leinen", "bambus", "schok"]), env, ctx);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+      expect(upstreamQueries(1)).toEqual(["leinen"]);
+      const json = (await response.json()) as { results: { query: string }[] };
+      expect(json.results.map((result) => result.query)).toEqual([
+        "leinen",
+        "bambus",
+        "schok",
+      ]);
+    });
+
+    it("should answer a fully cached batch without calling Algolia", async () => {
+      await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+      await flushWaitUntil();
+
+      const response = await worker.fetch(multiQuery(["bambus", "schok"]), env, ctx);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(response.status).toBe(200);
+    });
+
+    it("should share entries with single-query batches", async () => {
+      await worker.fetch(multiQuery(["schok"]), env, ctx);
+      await flushWaitUntil();
+
+      await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+
+      expect(upstreamQueries(1)).toEqual(["bambus"]);
+    });
+
+    it("should serve stale results when the upstream call for the misses fails", async () => {
+      env.CACHE_STALE_IF_ERROR = "3600";
+      await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+      await flushWaitUntil();
+      for (const [url, cached] of cacheStore) {
+        const headers = new Headers(cached.headers);
+        headers.set("X-AS-Cached-At", String(Date.now() - 700_000));
+        cacheStore.set(url, new Response(cached.body, { headers }));
+      }
+      vi.mocked(globalThis.fetch).mockResolvedValue(new Response("down", { status: 503 }));
+
+      const response = await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("X-Cache")).toEqual("STALE");
+      delete env.CACHE_STALE_IF_ERROR;
+    });
+
+    it("should not split batches with a dependent strategy", async () => {
+      await worker.fetch(
+        multiQuery(["schok", "bambus"], { strategy: "stopIfEnoughMatches" }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expect(cachePut).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cache whole batches when splitting is disabled", async () => {
+      env.CACHE_SPLIT_QUERIES = "false";
+
+      await worker.fetch(multiQuery(["schok", "bambus"]), env, ctx);
+      await flushWaitUntil();
+
+      expect(cachePut).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("GET request caching", () => {
+    const getRequest = async (path: string, { ssr = true } = {}) =>
+      new Request(`https://example.com${path}`, {
+        method: "GET",
+        headers: ssr
+          ? {
+              "x-ssr-request": await signSsrToken("GET", new URL(path, "https://x").pathname),
+            }
+          : { Origin: "https://www.avocadostore.de" },
+      });
+
+    const lookupUrl = (call: number) => cacheMatch.mock.calls[call][0] as string;
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"hits": []}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete env.CACHE_TTL_CLIENT;
+    });
+
+    it("should cache object retrieval by objectID", async () => {
+      await worker.fetch(await getRequest("/1/indexes/products_de/4711"), env, ctx);
+
+      expect(cachePut).toHaveBeenCalledTimes(1);
+      expect(lookupUrl(0)).toContain("ssr=1");
+    });
+
+    it("should serve cached GET responses without calling Algolia", async () => {
+      cacheMatch.mockResolvedValue(
+        new Response('{"objectID": "4711"}', {
+          headers: { "X-AS-Cached-At": String(Date.now()) },
+        })
+      );
+
+      const response = await worker.fetch(
+        await getRequest("/1/indexes/products_de/4711"),
+        env,
+        ctx
+      );
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(await response.text()).toEqual('{"objectID": "4711"}');
+    });
+
+    it("should ignore param order, credentials and agent params in the key", async () => {
+      await worker.fetch(
+        await getRequest("/1/indexes/products_de?query=schok&hitsPerPage=5"),
+        env,
+        ctx
+      );
+      await worker.fetch(
+        await getRequest(
+          "/1/indexes/products_de?hitsPerPage=5&x-algolia-agent=test&query=schok&X-Algolia-API-Key=abc"
+        ),
+        env,
+        ctx
+      );
+
+      expect(lookupUrl(1)).toEqual(lookupUrl(0));
+    });
+
+    it("should use different keys for different queries", async () => {
+      await worker.fetch(await getRequest("/1/indexes/products_de?query=schok"), env, ctx);
+      await worker.fetch(await getRequest("/1/indexes/products_de?query=bambus"), env, ctx);
+
+      expect(lookupUrl(1)).not.toEqual(lookupUrl(0));
+    });
+
+    it("should keep SSR and client entries apart", async () => {
+      env.CACHE_TTL_CLIENT = "60";
+
+      await worker.fetch(await getRequest("/1/indexes/products_de/4711"), env, ctx);
+      await worker.fetch(
+        await getRequest("/1/indexes/products_de/4711", { ssr: false }),
+        env,
+        ctx
+      );
+
+      expect(lookupUrl(0)).toContain("ssr=1");
+      expect(lookupUrl(1)).toContain("ssr=0");
+    });
+
+    it("should not cache client GET requests when CACHE_TTL_CLIENT is 0", async () => {
+      env.CACHE_TTL_CLIENT = "0";
+
+      await worker.fetch(
+        await getRequest("/1/indexes/products_de/4711", { ssr: false }),
+        env,
+        ctx
+      );
+
+      expect(cacheMatch).not.toHaveBeenCalled();
+      expect(cachePut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Route and index allowlist", () => {
+    const clientRequest = (path: string, init: RequestInit = {}) =>
+      new Request(`https://example.com${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", Origin: "https://www.avocadostore.de" },
+      });
+
+    const multiQuery = (...indexNames: string[]) =>
+      clientRequest("/1/indexes/*/queries", {
+        method: "POST",
+        body: JSON.stringify({
+          requests: indexNames.map((indexName) => ({ indexName, query: "schok" })),
+        }),
+      });
+
+    afterEach(() => {
+      delete env.ALLOWED_INDICES;
+    });
+
+    it.each([
+      ["GET", "/1/keys"],
+      ["GET", "/1/indexes"],
+      ["GET", "/1/indexes/products_de/settings"],
+      ["PUT", "/1/indexes/products_de/settings"],
+      ["POST", "/1/indexes/products_de/browse"],
+      ["DELETE", "/1/indexes/products_de/4711"],
+    ])("should reject %s %s with a structured 403", async (method, path) => {
+      const response = await worker.fetch(clientRequest(path, { method }), env, ctx);
+
+      expect(response.status).toBe(403);
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("forbidden");
+      expect(json.error).toEqual("Route not allowed");
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.de"
+      );
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ["GET", "/1/indexes/products_de?query=schok"],
+      ["GET", "/1/indexes/products_de/4711"],
+    ])("should forward %s %s", async (method, path) => {
+      const response = await worker.fetch(clientRequest(path, { method }), env, ctx);
+
+      expect(response.status).toBe(200);
+      expect(globalThis.fetch).toHaveBeenCalled();
+    });
+
+    it("should allow every index when ALLOWED_INDICES is unset", async () => {
+      const response = await worker.fetch(multiQuery("anything"), env, ctx);
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should check every requests[].indexName against the allowlist", async () => {
+      env.ALLOWED_INDICES = JSON.stringify(["products_*"]);
+
+      const allowed = await worker.fetch(multiQuery("products_de", "products_fr"), env, ctx);
+      const rejected = await worker.fetch(multiQuery("products_de", "internal_orders"), env, ctx);
+
+      expect(allowed.status).toBe(200);
+      expect(rejected.status).toBe(403);
+      const json = (await rejected.json()) as any;
+      expect(json.error).toEqual("Index not allowed");
+      expect(json.details).toContain("internal_orders");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check the index in the path against the allowlist", async () => {
+      env.ALLOWED_INDICES = JSON.stringify(["products_*"]);
+
+      const response = await worker.fetch(
+        clientRequest("/1/indexes/internal_orders/query", {
+          method: "POST",
+          body: JSON.stringify({ query: "schok" }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should allow no index when ALLOWED_INDICES is invalid", async () => {
+      env.ALLOWED_INDICES = "not json";
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const response = await worker.fetch(multiQuery("products_de"), env, ctx);
+
+      expect(response.status).toBe(403);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("Upstream header forwarding", () => {
+    const privateHeaders = () => ({
+      "Content-Type": "application/json",
+      "User-Agent": "TestAgent/1.0",
+      Cookie: "session=secret-session",
+      Authorization: "Bearer secret-bearer",
+      "x-algolia-api-key": "client-supplied-key",
+      "x-ssr-request": ssrToken,
+      "X-AS-Cache-Key": "custom-key",
+      "CF-Connecting-IP": "203.0.113.7",
+    });
+
+    const forwardedHeaders = (call = 0) =>
+      (vi.mocked(globalThis.fetch).mock.calls[call][1] as RequestInit).headers as Record<
+        string,
+        string
+      >;
+
+    const expectNoSecrets = (call = 0) => {
+      const [url, init] = vi.mocked(globalThis.fetch).mock.calls[call];
+      const sent = JSON.stringify(init?.headers) + String(url);
+      expect(sent).not.toContain("secret-session");
+      expect(sent).not.toContain("secret-bearer");
+      expect(sent).not.toContain("client-supplied-key");
+      expect(sent).not.toContain(ssrToken);
+      expect(sent).not.toContain("custom-key");
+    };
+
+    beforeEach(() => {
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"hits": []}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete env.FORWARD_CLIENT_IP;
+      delete env.CACHE_COALESCE_MODE;
+    });
+
+    it("should never forward the SSR token, cookies or credentials to search", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: privateHeaders(),
+          body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+        }),
+        env,
+        ctx
+      );
+
+      expectNoSecrets();
+      expect(forwardedHeaders()).toEqual({
+        "content-type": "application/json",
+        "user-agent": "TestAgent/1.0",
+      });
+    });
+
+    it("should never forward the SSR token, cookies or credentials to insights", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/events", {
+          method: "POST",
+          headers: privateHeaders(),
+          body: JSON.stringify({ events: [] }),
+        }),
+        env,
+        ctx
+      );
+
+      expectNoSecrets();
+    });
+
+    it("should sanitize headers of requests coalesced through the Durable Object", async () => {
+      env.CACHE_COALESCE_MODE = "durable_object";
+
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: privateHeaders(),
+          body: JSON.stringify({ requests: [{ indexName: "test", query: "bambus" }] }),
+        }),
+        env,
+        ctx
+      );
+
+      expectNoSecrets();
+    });
+
+    it("should forward the client IP only when enabled", async () => {
+      const request = () =>
+        new Request("https://example.com/1/indexes/products_de/4711", {
+          method: "GET",
+          headers: privateHeaders(),
+        });
+
+      await worker.fetch(request(), env, ctx);
+      env.FORWARD_CLIENT_IP = "true";
+      await worker.fetch(request(), env, ctx);
+
+      expect(forwardedHeaders(0)["x-forwarded-for"]).toBeUndefined();
+      expect(forwardedHeaders(1)["x-forwarded-for"]).toEqual("203.0.113.7");
+    });
+  });
+
+  describe("Algolia host circuit breaker", () => {
+    // Host health is tracked per isolate, so every test uses its own application
+    let appId = 0;
+    let dsnHost: string;
+    let fallbackHost: string;
+
+    const search = () =>
+      worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Origin: "https://www.avocadostore.de" },
+          body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+        }),
+        env,
+        ctx
+      );
+
+    const hostOf = (call: number) =>
+      new URL(vi.mocked(globalThis.fetch).mock.calls[call][0] as string).host;
+
+    const mockHosts = (failing: (host: string) => boolean) => {
+      globalThis.fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (failing(new URL(url).host)) {
+          throw new Error("Network error");
+        }
+        return new Response('{"hits": []}', { status: 200 });
+      });
+    };
+
+    const circuitLogs = (spy: { mock: { calls: unknown[][] } }) =>
+      spy.mock.calls
+        .map((call) => (call[0] as { message?: string }).message || "")
+        .filter((message) => message.startsWith("[CIRCUIT]"));
+
+    beforeEach(() => {
+      env.ALGOLIA_APPLICATION_ID = `circuit${++appId}`;
+      dsnHost = `${env.ALGOLIA_APPLICATION_ID}-dsn.algolia.net`;
+      fallbackHost = `${env.ALGOLIA_APPLICATION_ID}-1.algolianet.com`;
+      cacheMatch.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should skip a host after consecutive failures", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockHosts((host) => host === dsnHost);
+
+      for (let i = 0; i < 3; i++) {
+        expect((await search()).status).toBe(200);
+      }
+      vi.mocked(globalThis.fetch).mockClear();
+      await search();
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(hostOf(0)).not.toEqual(dsnHost);
+      expect(circuitLogs(warnSpy)).toEqual([`[CIRCUIT] Opened circuit for ${dsnHost}`]);
+    });
+
+    it("should still try hosts with an open circuit when all others fail", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockHosts(() => true);
+
+      for (let i = 0; i < 3; i++) {
+        await search();
+      }
+      vi.mocked(globalThis.fetch).mockClear();
+      const response = await search();
+
+      expect(response.status).toBe(502);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should close the circuit after a successful half-open probe", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      mockHosts((host) => host === dsnHost);
+      for (let i = 0; i < 3; i++) {
+        await search();
+      }
+
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now + 31_000);
+      mockHosts(() => false);
+      await search();
+      await search();
+
+      expect(hostOf(0)).toEqual(dsnHost);
+      expect(hostOf(1)).toEqual(dsnHost);
+      expect(circuitLogs(logSpy)).toEqual([
+        `[CIRCUIT] Half-opened circuit for ${dsnHost}, probing`,
+        `[CIRCUIT] Closed circuit for ${dsnHost}`,
+      ]);
+    });
+
+    it("should reopen the circuit when the probe fails", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      mockHosts((host) => host === dsnHost);
+      for (let i = 0; i < 3; i++) {
+        await search();
+      }
+
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now + 31_000);
+      vi.mocked(globalThis.fetch).mockClear();
+      await search();
+      await search();
+
+      expect(hostOf(0)).toEqual(dsnHost);
+      expect(hostOf(1)).not.toEqual(dsnHost);
+      expect(hostOf(2)).not.toEqual(dsnHost);
+      expect(circuitLogs(warnSpy)).toContain(`[CIRCUIT] Reopened circuit for ${dsnHost}`);
+    });
+
+    it("should keep the DSN host first while the other hosts are unmeasured", async () => {
+      mockHosts(() => false);
+
+      for (let i = 0; i < 3; i++) {
+        await search();
+      }
+
+      expect([0, 1, 2].map(hostOf)).toEqual([dsnHost, dsnHost, dsnHost]);
+    });
+
+    it("should prefer the host with the lowest observed latency", async () => {
+      // The DSN host fails once and then takes 30ms on a controlled clock, the
+      // others answer instantly
+      let clock = Date.now();
+      let dsnFailures = 1;
+      vi.spyOn(Date, "now").mockImplementation(() => clock);
+      globalThis.fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (new URL(url).host === dsnHost) {
+          if (dsnFailures-- > 0) {
+            throw new Error("Network error");
+          }
+          clock += 30;
+        }
+        return new Response('{"hits": []}', { status: 200 });
+      });
+
+      // The failover host gets sampled; the unmeasured DSN host keeps its place
+      await search();
+      await search();
+      expect([0, 1, 2].map(hostOf)).toEqual([dsnHost, fallbackHost, dsnHost]);
+
+      await search();
+      expect(hostOf(3)).toEqual(fallbackHost);
+    });
+  });
+
+  describe("Upstream timeouts and hedging", () => {
+    // Host health is tracked per isolate, so every test uses its own application
+    let appId = 0;
+    let dsnHost: string;
+
+    const search = () =>
+      worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Origin: "https://www.avocadostore.de" },
+          body: JSON.stringify({ requests: [{ indexName: "test", query: "schok" }] }),
+        }),
+        env,
+        ctx
+      );
+
+    const hang = () => new Promise<Response>(() => {});
+
+    const mockHosts = (respond: (host: string) => Promise<Response>) => {
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async (url: string) => respond(new URL(url).host));
+    };
+
+    beforeEach(() => {
+      env.ALGOLIA_APPLICATION_ID = `timeouts${++appId}`;
+      dsnHost = `${env.ALGOLIA_APPLICATION_ID}-dsn.algolia.net`;
+      env.ALGOLIA_CONNECT_TIMEOUT_MS = "20";
+      env.ALGOLIA_ATTEMPT_TIMEOUT_MS = "1000";
+      cacheMatch.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      delete env.ALGOLIA_CONNECT_TIMEOUT_MS;
+      delete env.ALGOLIA_ATTEMPT_TIMEOUT_MS;
+      delete env.ALGOLIA_REQUEST_BUDGET_MS;
+      delete env.ALGOLIA_HEDGE_AFTER_MS;
+    });
+
+    it("should move on to the next host when a host does not answer", async () => {
+      mockHosts(async (host) =>
+        host === dsnHost ? hang() : new Response('{"hits": []}', { status: 200 })
+      );
+
+      const response = await search();
+
+      expect(response.status).toBe(200);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+      const init = vi.mocked(globalThis.fetch).mock.calls[0][1] as RequestInit;
+      expect(init.signal?.aborted).toBe(true);
+    });
+
+    it("should time out a host that stalls after sending headers", async () => {
+      env.ALGOLIA_ATTEMPT_TIMEOUT_MS = "30";
+      mockHosts(async (host) =>
+        host === dsnHost
+          ? new Response(new ReadableStream({ start() {} }), { status: 200 })
+          : new Response('{"hits": []}', { status: 200 })
+      );
+
+      const response = await search();
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toEqual('{"hits": []}');
+    });
+
+    it("should report timeouts distinctly from HTTP errors", async () => {
+      mockHosts(async (host) =>
+        host === dsnHost ? new Response("unavailable", { status: 503 }) : hang()
+      );
+
+      const response = await search();
+
+      expect(response.status).toBe(502);
+      const json = (await response.json()) as any;
+      expect(json.details).toContain(`${dsnHost} (503)`);
+      expect(json.details).toContain("(timeout: connect)");
+    });
+
+    it("should stop trying hosts once the request budget is spent", async () => {
+      env.ALGOLIA_CONNECT_TIMEOUT_MS = "1000";
+      env.ALGOLIA_REQUEST_BUDGET_MS = "40";
+      mockHosts(hang);
+
+      const startedAt = Date.now();
+      const response = await search();
+
+      expect(response.status).toBe(502);
+      expect(Date.now() - startedAt).toBeLessThan(500);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      const json = (await response.json()) as any;
+      expect(json.details).toContain("(timeout: budget)");
+    });
+
+    it("should hedge to the next host and cancel the slower attempt", async () => {
+      env.ALGOLIA_CONNECT_TIMEOUT_MS = "1000";
+      env.ALGOLIA_HEDGE_AFTER_MS = "10";
+      mockHosts(async (host) =>
+        host === dsnHost
+          ? hang()
+          : new Response('{"hits": [{"objectID": "hedged"}]}', { status: 200 })
+      );
+
+      const response = await search();
+
+      expect(await response.text()).toContain("hedged");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+      const dsnInit = vi.mocked(globalThis.fetch).mock.calls[0][1] as RequestInit;
+      expect(dsnInit.signal?.aborted).toBe(true);
+    });
+
+    it("should not hedge when hedging is disabled", async () => {
+      env.ALGOLIA_CONNECT_TIMEOUT_MS = "1000";
+      mockHosts(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        return new Response('{"hits": []}', { status: 200 });
+      });
+
+      const response = await search();
+
+      expect(response.status).toBe(200);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Log redaction", () => {
+    const PARENT_KEY = "parent-api-key-4711";
+    const SECRETS = () => [
+      PARENT_KEY,
+      ssrToken,
+      SSR_SECRET,
+      "session-cookie-value",
+      "Bearer bearer-secret",
+      "client-supplied-key",
+      "203.0.113.9",
+      "user-42",
+    ];
+
+    let output: () => string;
+
+    const flushWaitUntil = () =>
+      Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+    const searchRequest = (query = "schokolade") =>
+      new Request(
+        "https://example.com/1/indexes/*/queries?x-algolia-api-key=client-supplied-key",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Origin: "https://www.avocadostore.de",
+            "x-ssr-request": ssrToken,
+            Cookie: "session=session-cookie-value",
+            Authorization: "Bearer bearer-secret",
+            "CF-Connecting-IP": "203.0.113.9",
+          },
+          body: JSON.stringify({
+            requests: [
+              { indexName: "products_de", params: `query=${query}&userToken=user-42` },
+            ],
+          }),
+        }
+      );
+
+    const expectNoSecrets = (text: string) => {
+      for (const secret of SECRETS()) {
+        expect(text).not.toContain(secret);
+      }
+    };
+
+    beforeEach(() => {
+      env.ALGOLIA_API_KEY = PARENT_KEY;
+      cacheMatch.mockResolvedValue(undefined);
+      const spies = (["log", "warn", "error"] as const).map((level) =>
+        vi.spyOn(console, level).mockImplementation(() => {})
+      );
+      output = () => JSON.stringify(spies.flatMap((spy) => spy.mock.calls));
+    });
+
+    afterEach(() => {
+      delete env.LOG_QUERY_MODE;
+      vi.restoreAllMocks();
+    });
+
+    it("should mask secrets, cookies, IPs and user tokens in request logs", async () => {
+      await worker.fetch(searchRequest(), env, ctx);
+      await flushWaitUntil();
+
+      expect(output()).toContain("[SUCCESS]");
+      expect(output()).toContain("[REDACTED]");
+      expectNoSecrets(output());
+    });
+
+    it("should not return or log the API key when all hosts fail", async () => {
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      const response = await worker.fetch(searchRequest(), env, ctx);
+      await flushWaitUntil();
+
+      expect(response.status).toBe(502);
+      const body = await response.text();
+      expect(body).toContain("algolia_url");
+      expectNoSecrets(body);
+      expectNoSecrets(output());
+    });
+
+    it("should mask user tokens of insights events", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "CF-Connecting-IP": "203.0.113.9" },
+          body: JSON.stringify({
+            events: [{ eventType: "view", eventName: "Viewed", index: "products_de", userToken: "user-42" }],
+          }),
+        }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expectNoSecrets(output());
+    });
+
+    it("should log queries verbatim by default", async () => {
+      await worker.fetch(searchRequest(), env, ctx);
+      await flushWaitUntil();
+
+      expect(output()).toContain("schokolade");
+    });
+
+    it("should hash queries when LOG_QUERY_MODE is hash", async () => {
+      env.LOG_QUERY_MODE = "hash";
+
+      await worker.fetch(searchRequest(), env, ctx);
+      await flushWaitUntil();
+
+      expect(output()).not.toContain("schokolade");
+      expect(output()).toMatch(/sha256%3A[0-9a-f]{16}|sha256:[0-9a-f]{16}/);
+      expectNoSecrets(output());
+    });
+
+    it("should hash queries in logged URLs of GET searches", async () => {
+      env.LOG_QUERY_MODE = "hash";
+
+      await worker.fetch(
+        new Request("https://example.com/1/indexes/products_de?query=secretsearch", {
+          headers: { "x-ssr-request": ssrToken },
+        }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expect(output()).toContain("/1/indexes/products_de?query=sha256%3A");
+      expect(output()).not.toContain("secretsearch");
+    });
+
+    it("should hash queries in the Algolia URL of failed GET searches", async () => {
+      env.LOG_QUERY_MODE = "hash";
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/products_de?query=secretsearch", {
+          headers: { "x-ssr-request": ssrToken },
+        }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expect(response.status).toBe(502);
+      expect(output()).toContain("algolia_url");
+      expect(output()).not.toContain("secretsearch");
+    });
+
+    it("should hash queries in error details of rejected searches", async () => {
+      env.LOG_QUERY_MODE = "hash";
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken },
+          body: JSON.stringify({ requests: [{ indexName: "products_de", query: "zq" }] }),
+        }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expect(response.status).toBe(400);
+      expect(output()).toMatch(/Request 0: Query: \\"sha256:[0-9a-f]{16}\\"/);
+      expect(output()).not.toContain("zq");
+    });
+  });
+
+  describe("Analytics Engine metrics", () => {
+    const writeDataPoint = vi.fn();
+
+    const flushWaitUntil = () =>
+      Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+    const ssrSearch = () =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken },
+        body: JSON.stringify({ requests: [{ indexName: "products_de", query: "schok" }] }),
+      });
+
+    const dataPoint = () => writeDataPoint.mock.calls[0][0] as AnalyticsEngineDataPoint;
+
+    beforeEach(() => {
+      env.METRICS = { writeDataPoint };
+      env.CACHE_TTL_SSR = "600";
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": []}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete (env as { METRICS?: unknown }).METRICS;
+    });
+
+    it("should record upstream requests with host and attempts", async () => {
+      await worker.fetch(ssrSearch(), env, ctx);
+      await flushWaitUntil();
+
+      expect(writeDataPoint).toHaveBeenCalledTimes(1);
+      const point = dataPoint();
+      expect(point.indexes).toEqual(["products_de"]);
+      expect(point.blobs?.slice(0, 4)).toEqual([
+        "/1/indexes/*/queries",
+        "products_de",
+        "ssr",
+        "MISS",
+      ]);
+      expect(point.blobs?.[4]).toMatch(/^testtest-/);
+      expect(point.blobs?.[5]).toEqual("");
+      expect(point.doubles?.[0]).toBe(200);
+      expect(point.doubles?.[2]).toBeGreaterThanOrEqual(1);
+    });
+
+    it("should record cache hits without an upstream host", async () => {
+      cacheMatch.mockResolvedValue(
+        new Response('{"results": []}', { headers: { "X-AS-Cached-At": String(Date.now()) } })
+      );
+
+      await worker.fetch(ssrSearch(), env, ctx);
+      await flushWaitUntil();
+
+      expect(dataPoint().blobs?.slice(3, 5)).toEqual(["HIT", ""]);
+      expect(dataPoint().doubles?.[2]).toBe(0);
+    });
+
+    it("should keep upstream details out of responses and cache entries", async () => {
+      const response = await worker.fetch(ssrSearch(), env, ctx);
+      await flushWaitUntil();
+
+      const stored = cachePut.mock.calls[0][1] as Response;
+      for (const headers of [response.headers, stored.headers]) {
+        expect(headers.get("X-AS-Upstream-Host")).toBeNull();
+        expect(headers.get("X-AS-Upstream-Attempts")).toBeNull();
+      }
+    });
+
+    it("should record the error type of failed upstream requests", async () => {
+      env.ALGOLIA_APPLICATION_ID = "metrics-down";
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      await worker.fetch(ssrSearch(), env, ctx);
+      await flushWaitUntil();
+
+      expect(dataPoint().blobs?.[5]).toEqual("algolia");
+      expect(dataPoint().doubles?.[0]).toBe(502);
+      expect(dataPoint().doubles?.[2]).toBe(4);
+    });
+
+    it("should record rejected requests", async () => {
+      await worker.fetch(
+        new Request("https://example.com/1/keys", { method: "GET" }),
+        env,
+        ctx
+      );
+      await flushWaitUntil();
+
+      expect(dataPoint().blobs?.slice(3, 6)).toEqual(["BYPASS", "", "forbidden"]);
+      expect(dataPoint().doubles?.[0]).toBe(403);
+    });
+
+    it("should fall back to the in-memory stand-in without a binding", async () => {
+      delete (env as { METRICS?: unknown }).METRICS;
+
+      const response = await worker.fetch(ssrSearch(), env, ctx);
+      await flushWaitUntil();
+
+      expect(response.status).toBe(200);
+      expect(writeDataPoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Health and readiness", () => {
+    const get = (path: string, token = "ready-secret") =>
+      worker.fetch(
+        new Request(`https://example.com${path}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        env,
+        ctx
+      );
+
+    beforeEach(() => {
+      env.READY_TOKEN = "ready-secret";
+      env.ALGOLIA_APPLICATION_ID = "healthapp";
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(
+          async () => new Response('{"message": "server is alive"}', { status: 200 })
+        );
+    });
+
+    afterEach(() => {
+      delete env.CACHE_TTL_POLICY;
+      delete env.READY_TOKEN;
+    });
+
+    it("should report config sanity and version without calling Algolia", async () => {
+      const response = await get("/_health");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Cache-Control")).toEqual("no-store");
+      const json = (await response.json()) as any;
+      expect(json.status).toEqual("ok");
+      expect(json.version.id).toEqual(expect.any(String));
+      expect(json.config).toEqual({
+        algolia_application_id: true,
+        algolia_api_key: true,
+        cache_ttls: true,
+        json_config: true,
+        tenant_api_keys: true,
+        algolia_key_policy: true,
+      });
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should fail the health check for broken configuration", async () => {
+      env.CACHE_TTL_POLICY = "[{";
+
+      const response = await get("/_health");
+
+      expect(response.status).toBe(503);
+      const json = (await response.json()) as any;
+      expect(json.config.json_config).toBe(false);
+    });
+
+    it.each([
+      ["CORS_POLICY", '["https://www.avocadostore.de"]'],
+      ["VALIDATION_POLICY", '"reject"'],
+      ["QUERY_NORMALIZATION", '{"lowercase": true}'],
+      ["RESPONSE_SLIMMING", "{"],
+      ["DEBUG_ORIGINS", '"https://*.avocadostore.dev"'],
+      ["SSR_SIGNING_KEYS", '{"k1": 42}'],
+    ] as const)("should fail the health check for a %s of the wrong shape", async (name, value) => {
+      env[name] = value;
+
+      const response = await get("/_health");
+
+      expect(response.status).toBe(503);
+      expect(((await response.json()) as any).config.json_config).toBe(false);
+      delete env[name];
+    });
+
+    it("should probe every Algolia host for readiness", async () => {
+      const response = await get("/_ready");
+
+      expect(response.status).toBe(200);
+      const json = (await response.json()) as any;
+      expect(json.status).toEqual("ready");
+      expect(json.hosts).toHaveLength(4);
+      expect(json.hosts[0]).toMatchObject({ host: "healthapp-dsn.algolia.net", ok: true, status: 200 });
+      const probedUrls = vi.mocked(globalThis.fetch).mock.calls.map((call) => call[0] as string);
+      expect(probedUrls.every((url) => url.endsWith("/1/isalive"))).toBe(true);
+    });
+
+    it("should be unavailable when no host answers", async () => {
+      env.ALGOLIA_APPLICATION_ID = "healthdown";
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+      const response = await get("/_ready");
+
+      expect(response.status).toBe(503);
+      const json = (await response.json()) as any;
+      expect(json.hosts.map((probe: any) => probe.ok)).toEqual([false, false, false, false]);
+    });
+
+    it("should require the readiness token", async () => {
+      const unauthorized = await get("/_ready", "wrong");
+      expect(unauthorized.status).toBe(401);
+
+      delete env.READY_TOKEN;
+      const disabled = await get("/_ready");
+      expect(disabled.status).toBe(404);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should reuse host probes for a few seconds", async () => {
+      env.ALGOLIA_APPLICATION_ID = "healthcached";
+
+      const first = await get("/_ready");
+      const second = await get("/_ready");
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should neither cache nor count health routes", async () => {
+      const writeDataPoint = vi.fn();
+      env.METRICS = { writeDataPoint };
+
+      await get("/_health");
+      await get("/_ready");
+
+      expect(cacheMatch).not.toHaveBeenCalled();
+      expect(cachePut).not.toHaveBeenCalled();
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
+      expect(writeDataPoint).not.toHaveBeenCalled();
+      delete (env as { METRICS?: unknown }).METRICS;
+    });
+  });
+
+  describe("Debug and timing headers", () => {
+    const search = (headers: Record<string, string> = {}) =>
+      worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken, ...headers },
+          body: JSON.stringify({ requests: [{ indexName: "products_de", query: "schok" }] }),
+        }),
+        env,
+        ctx
+      );
+
+    const VERBOSE_HEADERS = ["X-Upstream-Host", "X-Upstream-Attempts", "Server-Timing"];
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      env.DEBUG_TOKEN = "debug-token-123";
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": []}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete env.DEBUG_TOKEN;
+      delete env.DEBUG_ORIGINS;
+    });
+
+    it("should always send the cache status and a request id", async () => {
+      const response = await search({ "CF-Ray": "8a1b2c3d4e5f-FRA" });
+
+      expect(response.headers.get("X-Cache")).toEqual("MISS");
+      expect(response.headers.get("X-Request-Id")).toEqual("8a1b2c3d4e5f-FRA");
+      for (const header of VERBOSE_HEADERS) {
+        expect(response.headers.get(header)).toBeNull();
+      }
+    });
+
+    it("should generate a request id without CF-Ray", async () => {
+      const response = await search();
+
+      expect(response.headers.get("X-Request-Id")).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("should add verbose headers for a valid debug token", async () => {
+      const response = await search({ "x-as-debug": "debug-token-123" });
+
+      expect(response.headers.get("X-Upstream-Host")).toMatch(/^testtest-/);
+      expect(response.headers.get("X-Upstream-Attempts")).toMatch(/^\d+$/);
+      expect(response.headers.get("Server-Timing")).toMatch(
+        /^parse;dur=\d+, cache;dur=\d+, upstream;dur=\d+, total;dur=\d+$/
+      );
+      expect(response.headers.get("Access-Control-Expose-Headers")).toContain("Server-Timing");
+    });
+
+    it("should ignore a wrong debug token", async () => {
+      const response = await search({ "x-as-debug": "guess" });
+
+      expect(response.headers.get("Server-Timing")).toBeNull();
+    });
+
+    it("should add verbose headers for allowlisted origins", async () => {
+      env.DEBUG_ORIGINS = JSON.stringify(["https://*.avocadostore.dev"]);
+
+      const allowed = await search({ Origin: "https://staging.avocadostore.dev" });
+      const other = await search({ Origin: "https://www.avocadostore.de" });
+
+      expect(allowed.headers.get("Server-Timing")).not.toBeNull();
+      expect(other.headers.get("Server-Timing")).toBeNull();
+    });
+
+    it("should report the cache age of hits", async () => {
+      cacheMatch.mockResolvedValue(
+        new Response('{"results": []}', {
+          headers: { "X-AS-Cached-At": String(Date.now() - 42_000) },
+        })
+      );
+
+      const response = await search({ "x-as-debug": "debug-token-123" });
+
+      expect(response.headers.get("X-Cache")).toEqual("HIT");
+      expect(response.headers.get("X-Cache-Age")).toEqual("42");
+      expect(response.headers.get("X-Upstream-Host")).toBeNull();
+      expect(response.headers.get("Server-Timing")).not.toContain("upstream");
+    });
+
+    it("should not reveal the cache age to other callers", async () => {
+      cacheMatch.mockResolvedValue(
+        new Response('{"results": []}', {
+          headers: { "X-AS-Cached-At": String(Date.now() - 42_000) },
+        })
+      );
+
+      const response = await search({ Origin: "https://www.avocadostore.de" });
+
+      expect(response.headers.get("X-Cache")).toEqual("HIT");
+      expect(response.headers.get("X-Cache-Age")).toBeNull();
+      expect(response.headers.get("X-AS-Cached-At")).toBeNull();
+    });
+
+    it("should tag rejected requests with the request id", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/products_de/settings", {
+          method: "PUT",
+          headers: { "CF-Ray": "8a1b2c3d4e5f-FRA" },
+          body: "{}",
+        }),
+        env,
+        ctx
+      );
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get("X-Cache")).toEqual("BYPASS");
+      expect(response.headers.get("X-Request-Id")).toEqual("8a1b2c3d4e5f-FRA");
+      expect(JSON.stringify(errorSpy.mock.calls)).toContain('"request_id":"8a1b2c3d4e5f-FRA"');
+      errorSpy.mockRestore();
+    });
+
+    it("should tag invalid search bodies with the request id", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/*/queries", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Origin: "https://www.avocadostore.de",
+            "CF-Ray": "8a1b2c3d4e5f-FRA",
+          },
+          body: "{not json",
+        }),
+        env,
+        ctx
+      );
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("X-Cache")).toEqual("BYPASS");
+      expect(response.headers.get("X-Request-Id")).toEqual("8a1b2c3d4e5f-FRA");
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.de"
+      );
+      expect(JSON.stringify(errorSpy.mock.calls)).toContain('"request_id":"8a1b2c3d4e5f-FRA"');
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("CORS policy", () => {
+    const preflight = (origin: string) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "OPTIONS",
+        headers: { Origin: origin },
+      });
+
+    afterEach(() => {
+      delete env.CORS_POLICY;
+    });
+
+    it("should allow exact origins and wildcard subdomains by default", async () => {
+      for (const origin of [
+        "https://avocadostore.de",
+        "https://www.avocadostore.de",
+        "https://a.b.avocadostore.dev",
+        "http://127.0.0.1:5173",
+      ]) {
+        const response = await worker.fetch(preflight(origin), env, ctx);
+        expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(origin);
+        expect(response.headers.get("Vary")).toEqual("Origin");
+      }
+    });
+
+    it("should not match lookalike origins", async () => {
+      for (const origin of [
+        "https://avocadostore.de.evil.com",
+        "https://evilavocadostore.de",
+        "http://www.avocadostore.de",
+        "null",
+      ]) {
+        const response = await worker.fetch(preflight(origin), env, ctx);
+        expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+      }
+    });
+
+    it("should apply origins, localhost allowance and headers from CORS_POLICY", async () => {
+      env.CORS_POLICY = JSON.stringify({
+        origins: ["https://partner.example"],
+        originPatterns: ["https://*.staging.avocadostore.dev"],
+        allowLocalhost: false,
+        methods: ["GET", "OPTIONS"],
+        headers: ["Content-Type", "x-custom"],
+        maxAge: 600,
+        credentials: true,
+      });
+
+      const allowed = await worker.fetch(preflight("https://partner.example"), env, ctx);
+      expect(allowed.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://partner.example"
+      );
+      expect(allowed.headers.get("Access-Control-Allow-Credentials")).toEqual("true");
+      expect(allowed.headers.get("Access-Control-Allow-Methods")).toEqual("GET, OPTIONS");
+      expect(allowed.headers.get("Access-Control-Allow-Headers")).toEqual(
+        "Content-Type, x-custom"
+      );
+      expect(allowed.headers.get("Access-Control-Max-Age")).toEqual("600");
+
+      const pattern = await worker.fetch(
+        preflight("https://pr-12.staging.avocadostore.dev"),
+        env,
+        ctx
+      );
+      expect(pattern.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://pr-12.staging.avocadostore.dev"
+      );
+
+      for (const origin of ["http://localhost:3000", "https://www.avocadostore.de"]) {
+        const response = await worker.fetch(preflight(origin), env, ctx);
+        expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+        expect(response.headers.get("Access-Control-Allow-Credentials")).toBeNull();
+      }
+    });
+
+    it("should fall back to the default policy when CORS_POLICY is invalid", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      env.CORS_POLICY = "{not json";
+
+      const response = await worker.fetch(preflight("https://www.avocadostore.de"), env, ctx);
+
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.de"
+      );
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it("should keep the default for fields of the wrong type", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      env.CORS_POLICY = JSON.stringify({
+        origins: "https://partner.example",
+        maxAge: "600",
+        methods: ["GET", "OPTIONS"],
+      });
+
+      const partner = await worker.fetch(preflight("https://partner.example"), env, ctx);
+      const response = await worker.fetch(preflight("https://www.avocadostore.de"), env, ctx);
+
+      expect(partner.headers.get("Access-Control-Allow-Origin")).toBeNull();
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.de"
+      );
+      expect(response.headers.get("Access-Control-Max-Age")).toEqual("86400");
+      expect(response.headers.get("Access-Control-Allow-Methods")).toEqual("GET, OPTIONS");
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.stringify(errorSpy.mock.calls[0])).toContain("origins");
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("Query normalization", () => {
+    let cacheStore: Map<string, Response>;
+
+    const search = (requests: Record<string, unknown>[]) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-ssr-request": ssrToken },
+        body: JSON.stringify({ requests }),
+      });
+
+    const upstreamRequests = (call = 0) =>
+      JSON.parse((vi.mocked(globalThis.fetch).mock.calls[call][1] as RequestInit).body as string)
+        .requests;
+
+    beforeEach(() => {
+      env.CACHE_TTL_SSR = "600";
+      env.CACHE_SPLIT_QUERIES = "false";
+      cacheStore = new Map();
+      cachePut.mockImplementation(async (url: string, response: Response) => {
+        cacheStore.set(url, response);
+      });
+      cacheMatch.mockImplementation(async (url: string) => cacheStore.get(url)?.clone());
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": [{"hits": []}]}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete env.CACHE_SPLIT_QUERIES;
+      delete env.QUERY_NORMALIZATION;
+    });
+
+    it("should share one cache entry for whitespace and NFD variants", async () => {
+      await worker.fetch(search([{ indexName: "products_de", query: "Bambus Zahnbürste" }]), env, ctx);
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+
+      const response = await worker.fetch(
+        search([{ indexName: "products_de", query: "  Bambus   Zahnbu\u0308rste" }]),
+        env,
+        ctx
+      );
+
+      expect(response.headers.get("X-Cache")).toEqual("HIT");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(upstreamRequests()[0].query).toEqual("Bambus Zahnbürste");
+    });
+
+    it("should keep a trailing space, which turns off prefix matching", async () => {
+      await worker.fetch(search([{ indexName: "products_de", query: "Bambus   " }]), env, ctx);
+
+      expect(upstreamRequests()[0].query).toEqual("Bambus ");
+    });
+
+    it("should normalize the query string of GET searches", async () => {
+      await worker.fetch(
+        new Request(
+          `https://example.com/1/indexes/products_de?${new URLSearchParams({
+            query: " Bambus  Zahnbu\u0308rste",
+            hitsPerPage: "5",
+          })}`
+        ),
+        env,
+        ctx
+      );
+
+      const upstreamUrl = new URL(vi.mocked(globalThis.fetch).mock.calls[0][0] as string);
+      expect(upstreamUrl.pathname).toEqual("/1/indexes/products_de");
+      expect(upstreamUrl.searchParams.get("query")).toEqual("Bambus Zahnbürste");
+      expect(upstreamUrl.searchParams.get("hitsPerPage")).toEqual("5");
+    });
+
+    it("should lowercase and sort filters only for configured indices", async () => {
+      env.QUERY_NORMALIZATION = JSON.stringify([
+        { index: "products_*", lowercase: true, sortFilters: true },
+      ]);
+
+      await worker.fetch(
+        search([
+          {
+            indexName: "products_de",
+            query: "Bambus",
+            facetFilters: [["color:red", "color:blue"], "brand:x", "brand:x"],
+          },
+          { indexName: "articles_de", query: "Bambus", facetFilters: ["b", "a"] },
+        ]),
+        env,
+        ctx
+      );
+
+      expect(upstreamRequests()).toEqual([
+        {
+          indexName: "products_de",
+          query: "bambus",
+          facetFilters: ["brand:x", ["color:blue", "color:red"]],
+        },
+        { indexName: "articles_de", query: "Bambus", facetFilters: ["b", "a"] },
+      ]);
+    });
+
+    it("should normalize queries and filters inside params strings", async () => {
+      env.QUERY_NORMALIZATION = JSON.stringify([{ sortFilters: true }]);
+      const untouched = "query=schok&hitsPerPage=20";
+
+      await worker.fetch(
+        search([
+          {
+            indexName: "products_de",
+            params: new URLSearchParams({
+              query: " Bambus  Zahnbürste",
+              facetFilters: JSON.stringify(["b:2", "a:1", "a:1"]),
+            }).toString(),
+          },
+          { indexName: "products_de", params: untouched },
+        ]),
+        env,
+        ctx
+      );
+
+      const [normalized, unchanged] = upstreamRequests();
+      const params = new URLSearchParams(normalized.params);
+      expect(params.get("query")).toEqual("Bambus Zahnbürste");
+      expect(JSON.parse(params.get("facetFilters") as string)).toEqual(["a:1", "b:2"]);
+      expect(unchanged.params).toEqual(untouched);
+    });
+  });
+
+  describe("Query validation across client body shapes", () => {
+    const post = (path: string, body: unknown) =>
+      new Request(`https://example.com${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const multiQuery = (requests: unknown[]) => post("/1/indexes/*/queries", { requests });
+
+    beforeEach(() => {
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": []}', { status: 200 }));
+    });
+
+    it("should validate queries in v3 params strings", async () => {
+      const response = await worker.fetch(
+        multiQuery([{ indexName: "products_de", params: "query=ab&hitsPerPage=20" }]),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(400);
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("too_short");
+      expect(json.requestIndex).toBe(0);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should report which v4 sub-request has an invalid params query", async () => {
+      const response = await worker.fetch(
+        multiQuery([
+          { indexName: "products_de", params: "query=schok&hitsPerPage=20" },
+          {
+            indexName: "products_de",
+            params: `query=${encodeURIComponent("中文搜索")}&facets=%5B%22brand%22%5D`,
+          },
+        ]),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(400);
+      const json = (await response.json()) as any;
+      expect(json.errorType).toEqual("invalid_characters");
+      expect(json.requestIndex).toBe(1);
+      expect(json.details).toContain("Request 1");
+    });
+
+    it("should validate v5 top-level query fields", async () => {
+      const invalid = await worker.fetch(
+        multiQuery([
+          { indexName: "products_de", query: "schok", hitsPerPage: 20 },
+          { indexName: "products_de", query: "中文搜索", hitsPerPage: 20 },
+        ]),
+        env,
+        ctx
+      );
+      expect(invalid.status).toBe(400);
+      expect(((await invalid.json()) as any).requestIndex).toBe(1);
+
+      const valid = await worker.fetch(
+        multiQuery([{ indexName: "products_de", query: "schok", hitsPerPage: 20 }]),
+        env,
+        ctx
+      );
+      expect(valid.status).toBe(200);
+    });
+
+    it("should validate single-index query bodies", async () => {
+      const invalid = await worker.fetch(
+        post("/1/indexes/products_de/query", { params: "query=ab" }),
+        env,
+        ctx
+      );
+      expect(invalid.status).toBe(400);
+      expect(((await invalid.json()) as any).errorType).toEqual("too_short");
+
+      const valid = await worker.fetch(
+        post("/1/indexes/products_de/query", { query: "schok", params: "hitsPerPage=5" }),
+        env,
+        ctx
+      );
+      expect(valid.status).toBe(200);
+    });
+
+    it("should reject requests that are not an array of objects", async () => {
+      for (const requests of [{ indexName: "products_de" }, [null]]) {
+        const response = await worker.fetch(post("/1/indexes/*/queries", { requests }), env, ctx);
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).errorType).toEqual("malformed_json");
+      }
+    });
+  });
+
+  describe("Validation policy", () => {
+    const multiQuery = (requests: Record<string, unknown>[]) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requests }),
+      });
+
+    const upstreamRequests = () =>
+      JSON.parse((vi.mocked(globalThis.fetch).mock.calls[0][1] as RequestInit).body as string)
+        .requests;
+
+    beforeEach(() => {
+      globalThis.fetch = vi.fn().mockImplementation(async (_url, init: RequestInit) => {
+        const { requests } = JSON.parse(init.body as string);
+        return new Response(
+          JSON.stringify({
+            results: requests.map((request: { indexName: string; query: string }) => ({
+              index: request.indexName,
+              query: request.query,
+              hits: [{ objectID: "1" }],
+            })),
+          }),
+          { status: 200 }
+        );
+      });
+    });
+
+    afterEach(() => {
+      delete env.VALIDATION_POLICY;
+    });
+
+    it("should apply min length, max length, empty and charset rules per index", async () => {
+      env.VALIDATION_POLICY = JSON.stringify({
+        rules: [
+          { index: "*_query_suggestions", minLength: 1 },
+          { index: "products_fr", charset: "latin", maxLength: 10 },
+          { index: "products_de", allowEmpty: false },
+        ],
+      });
+
+      const suggestions = await worker.fetch(
+        multiQuery([{ indexName: "products_query_suggestions", query: "ab" }]),
+        env,
+        ctx
+      );
+      expect(suggestions.status).toBe(200);
+
+      const latin = await worker.fetch(
+        multiQuery([{ indexName: "products_fr", query: "œuvre" }]),
+        env,
+        ctx
+      );
+      expect(latin.status).toBe(200);
+
+      const cases: [Record<string, unknown>, string][] = [
+        [{ indexName: "products_fr", query: "chaussures femme" }, "too_long"],
+        [{ indexName: "products_de", query: "" }, "empty_query"],
+        [{ indexName: "products_de", query: "œuvre" }, "invalid_characters"],
+        [{ indexName: "products_de", query: "ab" }, "too_short"],
+      ];
+      for (const [request, errorType] of cases) {
+        const response = await worker.fetch(multiQuery([request]), env, ctx);
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).errorType).toEqual(errorType);
+      }
+    });
+
+    it("should accept a batch with one long enough query unless sub-requests are checked", async () => {
+      const batch = () =>
+        multiQuery([
+          { indexName: "products_de", query: "ab" },
+          { indexName: "products_de", query: "schok" },
+        ]);
+
+      const accepted = await worker.fetch(batch(), env, ctx);
+      expect(accepted.status).toBe(200);
+      expect(upstreamRequests()).toHaveLength(2);
+
+      env.VALIDATION_POLICY = JSON.stringify({ mode: "reject" });
+      const rejected = await worker.fetch(batch(), env, ctx);
+      expect(rejected.status).toBe(400);
+      const json = (await rejected.json()) as any;
+      expect(json.errorType).toEqual("too_short");
+      expect(json.requestIndex).toBe(0);
+    });
+
+    it("should answer invalid sub-requests with empty results in partial mode", async () => {
+      env.VALIDATION_POLICY = JSON.stringify({ mode: "partial" });
+
+      const response = await worker.fetch(
+        multiQuery([
+          { indexName: "products_de", query: "ab" },
+          { indexName: "products_de", query: "schok" },
+          { indexName: "articles_de", query: "中文搜索" },
+        ]),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      expect(upstreamRequests()).toEqual([{ indexName: "products_de", query: "schok" }]);
+      const json = (await response.json()) as any;
+      expect(json.results).toHaveLength(3);
+      expect(json.results[0]).toMatchObject({ index: "products_de", query: "ab", hits: [], nbHits: 0 });
+      expect(json.results[1].hits).toHaveLength(1);
+      expect(json.results[2]).toMatchObject({ index: "articles_de", hits: [], nbHits: 0 });
+    });
+
+    it("should not call Algolia when every sub-request is invalid in partial mode", async () => {
+      env.VALIDATION_POLICY = JSON.stringify({ mode: "partial" });
+
+      const response = await worker.fetch(
+        multiQuery([
+          { indexName: "products_de", query: "a" },
+          { indexName: "products_de", query: "ab" },
+        ]),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      const json = (await response.json()) as any;
+      expect(json.results.map((result: any) => result.query)).toEqual(["a", "ab"]);
+    });
+
+    it("should still reject single-index bodies in partial mode", async () => {
+      env.VALIDATION_POLICY = JSON.stringify({ mode: "partial" });
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/products_de/query", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query: "ab" }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as any).errorType).toEqual("too_short");
+    });
+  });
+
+  describe("Multi-tenant routing", () => {
+    const tenantEnv = env as any;
+
+    const search = (url: string, headers: Record<string, string> = {}, indexName = "products_at") =>
+      new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ requests: [{ indexName, query: "schok" }] }),
+      });
+
+    const upstreamUrl = (call = 0) =>
+      new URL(vi.mocked(globalThis.fetch).mock.calls[call][0] as string);
+
+    beforeEach(() => {
+      tenantEnv.TENANTS = JSON.stringify([
+        {
+          id: "at",
+          hosts: ["search.avocadostore.at"],
+          appId: "TENANTAT",
+          apiKeySecret: "ALGOLIA_API_KEY_AT",
+          allowedIndices: ["products_at"],
+          ttlPolicy: [{ ssr: 120 }],
+          cors: { origins: ["https://www.avocadostore.at"] },
+        },
+        {
+          id: "b2b",
+          origins: ["https://b2b.avocadostore.de"],
+          appId: "TENANTB2B",
+          apiKeySecret: "ALGOLIA_API_KEY_B2B",
+        },
+      ]);
+      tenantEnv.ALGOLIA_API_KEY_AT = "tenant-at-search-key";
+      tenantEnv.ALGOLIA_API_KEY_B2B = "tenant-b2b-search-key";
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response('{"results": [{"hits": []}]}', { status: 200 }));
+    });
+
+    afterEach(() => {
+      delete tenantEnv.TENANTS;
+      delete tenantEnv.ALGOLIA_API_KEY_AT;
+      delete tenantEnv.ALGOLIA_API_KEY_B2B;
+    });
+
+    it("should route by hostname to the tenant's Algolia app and key", async () => {
+      const response = await worker.fetch(
+        search("https://search.avocadostore.at/1/indexes/*/queries", {
+          Origin: "https://www.avocadostore.at",
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      const url = upstreamUrl();
+      expect(url.hostname).toEqual("TENANTAT-dsn.algolia.net".toLowerCase());
+      expect(url.searchParams.get("x-algolia-application-id")).toEqual("TENANTAT");
+      expect(url.searchParams.get("x-algolia-api-key")).toEqual("tenant-at-search-key");
+      expect(response.headers.get("Access-Control-Allow-Origin")).toEqual(
+        "https://www.avocadostore.at"
+      );
+    });
+
+    it("should route by origin when the hostname matches no tenant", async () => {
+      await worker.fetch(
+        search("https://example.com/1/indexes/*/queries", {
+          Origin: "https://b2b.avocadostore.de",
+        }, "products_b2b"),
+        env,
+        ctx
+      );
+
+      expect(upstreamUrl().searchParams.get("x-algolia-application-id")).toEqual("TENANTB2B");
+      expect(upstreamUrl().searchParams.get("x-algolia-api-key")).toEqual(
+        "tenant-b2b-search-key"
+      );
+    });
+
+    it("should restrict a tenant's key with its own key policy", async () => {
+      env.ALGOLIA_KEY_POLICY = JSON.stringify({ client: { restrictIndices: ["products_de"] } });
+      tenantEnv.TENANTS = JSON.stringify([
+        {
+          id: "at",
+          hosts: ["search.avocadostore.at"],
+          appId: "TENANTAT",
+          apiKeySecret: "ALGOLIA_API_KEY_AT",
+          keyPolicy: { client: { restrictIndices: ["products_at"] } },
+        },
+        {
+          id: "b2b",
+          origins: ["https://b2b.avocadostore.de"],
+          appId: "TENANTB2B",
+          apiKeySecret: "ADMIN_API_TOKEN",
+        },
+      ]);
+      env.ADMIN_API_TOKEN = "admin-secret";
+
+      await worker.fetch(search("https://search.avocadostore.at/1/indexes/*/queries"), env, ctx);
+      const securedKey = atob(upstreamUrl().searchParams.get("x-algolia-api-key") as string);
+      expect(securedKey.slice(64)).toEqual("restrictIndices=products_at");
+
+      const health = await worker.fetch(new Request("https://example.com/_health"), env, ctx);
+      expect(((await health.json()) as any).config.tenant_api_keys).toBe(false);
+
+      delete env.ALGOLIA_KEY_POLICY;
+      delete env.ADMIN_API_TOKEN;
+    });
+
+    it("should reject requests for unknown hosts", async () => {
+      const response = await worker.fetch(
+        search("https://example.com/1/indexes/*/queries", {
+          Origin: "https://www.avocadostore.de",
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(421);
+      expect(((await response.json()) as any).errorType).toEqual("unknown_tenant");
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should apply the tenant's index allowlist", async () => {
+      const response = await worker.fetch(
+        search("https://search.avocadostore.at/1/indexes/*/queries", {}, "products_de"),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(403);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should partition cache entries per tenant and use the tenant's TTL policy", async () => {
+      env.CACHE_TTL_SSR = "600";
+      const headers = { "x-ssr-request": ssrToken };
+
+      await worker.fetch(search("https://search.avocadostore.at/1/indexes/*/queries", headers), env, ctx);
+      await worker.fetch(
+        search("https://search.avocadostore.at/1/indexes/*/queries", {
+          ...headers,
+          Origin: "https://b2b.avocadostore.de",
+        }),
+        env,
+        ctx
+      );
+      await worker.fetch(
+        search("https://example.com/1/indexes/*/queries", {
+          ...headers,
+          Origin: "https://b2b.avocadostore.de",
+        }),
+        env,
+        ctx
+      );
+
+      const [at, atAgain, b2b] = cachePut.mock.calls.map((call) => new URL(call[0] as string));
+      expect(at.searchParams.get("tenant")).toEqual("at");
+      expect(atAgain.toString()).toEqual(at.toString());
+      expect(b2b.searchParams.get("tenant")).toEqual("b2b");
+      expect(b2b.searchParams.get("cacheKey")).toEqual(at.searchParams.get("cacheKey"));
+      expect((cachePut.mock.calls[0][1] as Response).headers.get("Cache-Control")).toContain(
+        "max-age=120"
+      );
+    });
+
+    it("should keep per-index purges within a tenant", async () => {
+      env.CACHE_TTL_SSR = "600";
+      env.ADMIN_API_TOKEN = "admin-secret";
+      cacheDelete.mockResolvedValue(true);
+      const headers = { "x-ssr-request": ssrToken };
+
+      await worker.fetch(search("https://search.avocadostore.at/1/indexes/*/queries", headers), env, ctx);
+      await worker.fetch(
+        search("https://example.com/1/indexes/*/queries", {
+          ...headers,
+          Origin: "https://b2b.avocadostore.de",
+        }),
+        env,
+        ctx
+      );
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map((call) => call[0]));
+      const atCacheUrl = cachePut.mock.calls[0][0] as string;
+
+      const response = await worker.fetch(
+        new Request("https://search.avocadostore.at/_admin/cache/purge", {
+          method: "POST",
+          headers: { Authorization: "Bearer admin-secret" },
+          body: JSON.stringify({ tenant: "at", indexName: "products_at" }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      expect(cacheDelete.mock.calls.map((call) => call[0])).toEqual([atCacheUrl]);
+      delete env.ADMIN_API_TOKEN;
+    });
+
+    it("should purge tenant entries by body from any admin host", async () => {
+      env.CACHE_TTL_SSR = "600";
+      env.ADMIN_API_TOKEN = "admin-secret";
+      cacheDelete.mockResolvedValue(true);
+
+      await worker.fetch(
+        search("https://search.avocadostore.at/1/indexes/*/queries", { "x-ssr-request": ssrToken }),
+        env,
+        ctx
+      );
+      const atCacheUrl = cachePut.mock.calls[0][0] as string;
+
+      const response = await worker.fetch(
+        new Request("https://example.com/_admin/cache/purge", {
+          method: "POST",
+          headers: { Authorization: "Bearer admin-secret" },
+          body: JSON.stringify({
+            tenant: "at",
+            body: { requests: [{ indexName: "products_at", query: "schok" }] },
+          }),
+        }),
+        env,
+        ctx
+      );
+
+      expect(response.status).toBe(200);
+      expect(cacheDelete.mock.calls.map((call) => call[0])).toContain(atCacheUrl);
+      delete env.ADMIN_API_TOKEN;
+    });
+  });
+
+  describe("Response slimming", () => {
+    const hit = {
+      objectID: "1",
+      name: "Bambus Zahnbürste",
+      price: 4.9,
+      description: "Lange Beschreibung",
+      _tags: ["intern"],
+      _highlightResult: { name: { value: "Bambus" }, description: { value: "Lange" } },
+      _snippetResult: { description: { value: "Lange…" } },
+      _rankingInfo: { nbTypos: 0 },
+    };
+
+    const search = (ssr: boolean) =>
+      new Request("https://example.com/1/indexes/*/queries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(ssr ? { "x-ssr-request": ssrToken } : {}),
+        },
+        body: JSON.stringify({
+          requests: [
+            { indexName: "products_de", query: "bambus" },
+            { indexName: "articles_de", query: "bambus" },
+          ],
+        }),
+      });
+
+    beforeEach(() => {
+      env.CACHE_SPLIT_QUERIES = "false";
+      cacheMatch.mockResolvedValue(undefined);
+      globalThis.fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              results: [
+                { index: "products_de", hits: [hit], nbHits: 1, page: 0 },
+                { index: "articles_de", hits: [hit], nbHits: 1, page: 0 },
+              ],
+            }),
+            { status: 200 }
+          )
+      );
+      env.RESPONSE_SLIMMING = JSON.stringify([
+        {
+          index: "products_*",
+          strip: ["_rankingInfo"],
+          clientAttributes: ["name", "price"],
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      delete env.CACHE_SPLIT_QUERIES;
+      delete env.RESPONSE_SLIMMING;
+    });
+
+    it("should trim hits of matching indices to the client attribute set", async () => {
+      const response = await worker.fetch(search(false), env, ctx);
+
+      const json = (await response.json()) as any;
+      expect(json.results).toHaveLength(2);
+      // _tags is record data, so it is dropped unless it is a client attribute
+      expect(json.results[0]).toEqual({
+        index: "products_de",
+        nbHits: 1,
+        page: 0,
+        hits: [
+          {
+            objectID: "1",
+            name: "Bambus Zahnbürste",
+            price: 4.9,
+            _highlightResult: { name: { value: "Bambus" } },
+            _snippetResult: {},
+          },
+        ],
+      });
+      expect(json.results[1].hits[0]).toEqual(hit);
+    });
+
+    it("should only strip configured fields for SSR callers", async () => {
+      const response = await worker.fetch(search(true), env, ctx);
+
+      const json = (await response.json()) as any;
+      const { _rankingInfo, ...withoutRankingInfo } = hit;
+      expect(json.results[0].hits[0]).toEqual(withoutRankingInfo);
+    });
+
+    it("should trim single objects like hits", async () => {
+      globalThis.fetch = vi
+        .fn()
+        .mockImplementation(async () => new Response(JSON.stringify(hit), { status: 200 }));
+
+      const response = await worker.fetch(
+        new Request("https://example.com/1/indexes/products_de/1"),
+        env,
+        ctx
+      );
+
+      expect(await response.json()).toEqual({
+        objectID: "1",
+        name: "Bambus Zahnbürste",
+        price: 4.9,
+        _highlightResult: { name: { value: "Bambus" } },
+        _snippetResult: {},
+      });
+    });
+
+    it("should store slimmed responses in cache", async () => {
+      env.CACHE_TTL_SSR = "600";
+
+      await worker.fetch(search(true), env, ctx);
+
+      expect(cachePut).toHaveBeenCalled();
+      const cached = (await (cachePut.mock.calls[0][1] as Response).json()) as any;
+      expect(cached.results[0].hits[0]._rankingInfo).toBeUndefined();
+      expect(cached.results[1].hits[0]._rankingInfo).toEqual({ nbTypos: 0 });
+    });
+
+    it("should pass responses through unchanged without rules", async () => {
+      delete env.RESPONSE_SLIMMING;
+
+      const response = await worker.fetch(search(false), env, ctx);
+
+      const json = (await response.json()) as any;
+      expect(json.results[0].hits[0]).toEqual(hit);
+    });
+  });
 });
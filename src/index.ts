@@ -1,8 +1,44 @@
+import { DurableObject } from "cloudflare:workers";
+
 type Env = {
   ALGOLIA_APPLICATION_ID: string;
   ALGOLIA_API_KEY: string;
+  ALGOLIA_API_KEY_AT?: string;
+  ALGOLIA_API_KEY_B2B?: string;
   CACHE_TTL_SSR?: string;
   CACHE_TTL_CLIENT?: string;
+  CACHE_STALE_WHILE_REVALIDATE?: string;
+  CACHE_STALE_IF_ERROR?: string;
+  CACHE_COALESCE_MODE?: string;
+  CACHE_LOCK?: DurableObjectNamespace<CacheLock>;
+  CACHE_REGISTRY?: DurableObjectNamespace<CacheKeyRegistry>;
+  ADMIN_API_TOKEN?: string;
+  READY_TOKEN?: string;
+  CACHE_GENERATIONS?: KVNamespace;
+  REINDEX_WEBHOOK_SECRET?: string;
+  CACHE_TTL_POLICY?: string;
+  QUERY_NORMALIZATION?: string;
+  VALIDATION_POLICY?: string;
+  TENANTS?: string;
+  RESPONSE_SLIMMING?: string;
+  SSR_SIGNING_KEYS?: string;
+  SSR_TOKEN_MAX_AGE?: string;
+  ALGOLIA_KEY_POLICY?: string;
+  RATE_LIMIT_POLICY?: string;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+  CACHE_SPLIT_QUERIES?: string;
+  ALLOWED_INDICES?: string;
+  FORWARD_CLIENT_IP?: string;
+  ALGOLIA_CONNECT_TIMEOUT_MS?: string;
+  ALGOLIA_ATTEMPT_TIMEOUT_MS?: string;
+  ALGOLIA_REQUEST_BUDGET_MS?: string;
+  ALGOLIA_HEDGE_AFTER_MS?: string;
+  LOG_QUERY_MODE?: string;
+  METRICS?: AnalyticsEngineDataset;
+  CF_VERSION_METADATA?: WorkerVersionMetadata;
+  DEBUG_ORIGINS?: string;
+  DEBUG_TOKEN?: string;
+  CORS_POLICY?: string;
 };
 
 // ============================================================================
@@ -10,7 +46,9 @@ type Env = {
 // ============================================================================
 
 type SearchRequest = {
+  indexName?: string;
   query?: string;
+  params?: string;
   [key: string]: unknown;
 };
 
@@ -19,17 +57,87 @@ type IncomingBody = {
   [key: string]: unknown;
 };
 
+// The queries of one search request, wherever the client put them: a `query`
+// field (v5 clients, single-index bodies) and/or a URL-encoded `params` string
+// (v3/v4 clients, InstantSearch)
+type ParsedSearchRequest = {
+  // Position in `requests` (0 for a single-index body)
+  position: number;
+  indexName?: string;
+  queries: string[];
+};
+
 type ParseResult = {
   body?: IncomingBody;
   error?: Response;
+  // Sub-requests removed from `body` in partial validation mode
+  rejected?: ValidationFailure[];
+};
+
+type ValidationErrorType =
+  | 'too_short'
+  | 'too_long'
+  | 'empty_query'
+  | 'invalid_characters'
+  | 'malformed_json';
+
+// One entry of VALIDATION_POLICY.rules. The first rule whose `index` glob matches
+// a sub-request's index applies; omitted fields keep their default.
+type ValidationRule = {
+  index?: string;
+  minLength?: number;
+  maxLength?: number;
+  // Whether requests without a query (e.g. category pages) are allowed
+  allowEmpty?: boolean;
+  // Name of the allowed character class in QUERY_CHARSETS, usually per locale
+  charset?: string;
+};
+
+type ValidationPolicy = {
+  // `batch` answers invalid requests with 400, but a multi-query passes the
+  // length check as soon as one of its queries is long enough. `reject` applies
+  // every rule to each sub-request; `partial` does too, but answers invalid
+  // sub-requests with an empty result and sends the valid ones upstream.
+  mode: "batch" | "reject" | "partial";
+  rules: ValidationRule[];
 };
 
-type ValidationErrorType = 'too_short' | 'invalid_characters' | 'malformed_json';
+type ValidationFailure = {
+  position: number;
+  indexName?: string;
+  query?: string;
+  errorType: ValidationErrorType;
+  error: string;
+};
+
+type SsrRejectionReason =
+  | 'not_configured'
+  | 'malformed'
+  | 'unknown_key'
+  | 'expired'
+  | 'bad_signature';
+
+type SsrVerification = {
+  valid: boolean;
+  reason?: SsrRejectionReason;
+  keyId?: string;
+};
 
 type ErrorDetail = {
   error: string;
-  errorType: ValidationErrorType | 'network' | 'algolia';
+  errorType:
+    | ValidationErrorType
+    | 'network'
+    | 'algolia'
+    | 'unauthorized'
+    | 'bad_request'
+    | 'rate_limited'
+    | 'forbidden'
+    | 'unknown_tenant'
+    | 'config_error';
   details?: string;
+  // Position of the offending sub-request for validation errors
+  requestIndex?: number;
   timestamp: string;
 };
 
@@ -45,6 +153,241 @@ type HostAttempt = {
   status?: number;
   error?: string;
   ok?: boolean;
+  // Set when the attempt was aborted: no response headers within the connect
+  // timeout, no complete response within the attempt timeout or the request budget
+  timeout?: UpstreamTimeoutKind;
+  durationMs?: number;
+};
+
+type UpstreamTimeoutKind = "connect" | "total" | "budget";
+
+type UpstreamTimeouts = {
+  connectMs: number;
+  attemptMs: number;
+  budgetMs: number;
+  // Start the next host when an attempt has not answered after this long; 0 disables hedging
+  hedgeAfterMs: number;
+};
+
+type HostOutcome = {
+  attempt: HostAttempt;
+  response?: Response;
+};
+
+// Health of one Algolia host as seen by this isolate. `openedAt` is set while the
+// circuit is open; `probing` while a half-open trial request is in flight.
+type HostHealth = {
+  consecutiveFailures: number;
+  latencyMs?: number;
+  openedAt?: number;
+  probing?: boolean;
+};
+
+type CacheStatus = "HIT" | "MISS" | "STALE" | "BYPASS";
+
+// How a cached entry may be used: served as is, served while refreshing in the
+// background, kept only as a fallback for upstream failures, or not at all
+type CacheFreshness = "fresh" | "stale" | "fallback" | "expired";
+
+type CachePolicy = {
+  ttl: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+};
+
+// One entry of CACHE_TTL_POLICY. `index` and `path` are glob patterns (`*` matches
+// any characters); a missing pattern matches everything. TTLs are in seconds.
+type TtlRule = {
+  index?: string;
+  path?: string;
+  ssr?: number;
+  client?: number;
+};
+
+// One entry of QUERY_NORMALIZATION. The first rule whose `index` glob matches a
+// request's index decides its normalizations; omitted flags keep their default.
+type NormalizationRule = {
+  index?: string;
+  // Collapse runs of whitespace in `query`/`facetQuery` and drop leading whitespace
+  whitespace?: boolean;
+  // Unicode NFC, so decomposed input from some keyboards matches composed input
+  unicode?: boolean;
+  lowercase?: boolean;
+  // Sort and dedupe facetFilters, numericFilters and tagFilters
+  sortFilters?: boolean;
+};
+
+type QueryNormalization = Required<Omit<NormalizationRule, "index">>;
+
+// Restrictions embedded into an Algolia secured API key
+type KeyRestrictions = {
+  restrictIndices?: string[];
+  filters?: string;
+  restrictSources?: string;
+  // Seconds until the generated key expires (sets `validUntil`)
+  validity?: number;
+};
+
+// ALGOLIA_KEY_POLICY: restrictions per caller class, with per-origin overrides for client traffic
+type KeyPolicy = {
+  ssr?: KeyRestrictions;
+  client?: KeyRestrictions;
+  origins?: Record<string, KeyRestrictions>;
+};
+
+type RateLimitBucket = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+// RATE_LIMIT_POLICY: token buckets per route for client traffic. SSR traffic is
+// exempt unless `ssr` gives it its own budget.
+type RateLimitPolicy = {
+  search?: RateLimitBucket;
+  insights?: RateLimitBucket;
+  ssr?: RateLimitBucket;
+};
+
+type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type RateLimitResult = {
+  allowed: boolean;
+  retryAfter: number;
+};
+
+// One sub-request of a multi-query that is cached on its own
+type SubRequestEntry = {
+  request: SearchRequest;
+  indexNames: string[];
+  cacheKeyUrl: string;
+  policy: CachePolicy;
+  generations?: IndexGenerations;
+  result?: unknown;
+  fallback?: unknown;
+  stale?: boolean;
+};
+
+type SubRequestPlan = {
+  body: IncomingBody;
+  entries: SubRequestEntry[];
+};
+
+type SubRequestBatch = {
+  response: Response;
+  // Results aligned with the sent sub-requests, when the response could be split up
+  results?: unknown[];
+  shared: boolean;
+};
+
+type CoalesceMode = "off" | "isolate" | "durable_object";
+
+// Plain-data copy of an upstream response, so it can be shared between
+// requests and returned from Durable Object RPC calls
+type UpstreamSnapshot = {
+  body: ArrayBuffer;
+  status: number;
+  statusText: string;
+  headers: string[][];
+};
+
+type CoalescedUpstream = {
+  snapshot: UpstreamSnapshot;
+  // true when another request in this isolate performed the upstream call (and
+  // stores the result in this colo's cache)
+  shared: boolean;
+};
+
+type UpstreamRequest = {
+  requestId: string;
+  tenantId: string;
+  url: string;
+  origin: string;
+  isSSRRequest: boolean;
+  method: string;
+  headers: [string, string][];
+  body?: string;
+};
+
+// Current generation per index name; bumping one invalidates its cache entries
+type IndexGenerations = Record<string, number>;
+
+type GenerationStore = {
+  get(indexNames: string[]): Promise<IndexGenerations>;
+  bump(indexName: string): Promise<number>;
+};
+
+type ReindexRequest = {
+  // Tenant whose indices were reindexed (default tenant if omitted)
+  tenant?: string;
+  indexName?: string;
+  indexNames?: string[];
+};
+
+type PurgeRequest = {
+  // Tenant whose cache entries are purged (default tenant if omitted)
+  tenant?: string;
+  cacheKey?: string;
+  cacheKeys?: string[];
+  body?: IncomingBody;
+  indexName?: string;
+  path?: string;
+};
+
+// An Algolia operation the proxy forwards
+type ProxyRoute = {
+  name: "multi_query" | "query" | "facet_search" | "object" | "insights";
+  method: string;
+  pattern: RegExp;
+};
+
+// Which Algolia host answered a request and after how many attempts, carried on
+// upstream responses in internal headers until the handler records it
+type UpstreamInfo = {
+  host?: string;
+  attempts: number;
+};
+
+// Result of probing one Algolia host from /_ready
+type HostProbe = {
+  host: string;
+  ok: boolean;
+  status: number;
+  durationMs: number;
+};
+
+// Durations (ms) of the request phases reported in Server-Timing
+type ServerTimings = {
+  parse?: number;
+  cache?: number;
+  upstream?: number;
+};
+
+// One entry of RESPONSE_SLIMMING. The first rule whose `index` glob matches a
+// result's index decides how its hits are trimmed.
+type SlimmingRule = {
+  index?: string;
+  // Hit fields removed for every caller, e.g. "_highlightResult"
+  strip?: string[];
+  // The only attributes (besides `objectID`) returned to client callers
+  clientAttributes?: string[];
+};
+
+// Browser access policy; CORS_POLICY overrides individual fields of the default
+type CorsPolicy = {
+  // Exact origins, e.g. "https://dash.cloudflare.com"
+  origins: string[];
+  // Origins where `*` stands for one or more host labels (or a port),
+  // e.g. "https://*.avocadostore.de"
+  originPatterns: string[];
+  // Any http(s)://localhost or 127.0.0.1 origin, for local frontend development
+  allowLocalhost: boolean;
+  methods: string[];
+  headers: string[];
+  maxAge: number;
+  credentials: boolean;
 };
 
 type LogEntry = {
@@ -53,13 +396,46 @@ type LogEntry = {
   [key: string]: unknown;
 };
 
+// One entry of TENANTS: a storefront with its own Algolia application. Requests
+// are matched by hostname first, then by Origin; both accept `*` globs.
+type TenantConfig = {
+  id: string;
+  hosts?: string[];
+  origins?: string[];
+  appId: string;
+  // Name of the secret holding the tenant's search API key, one of TENANT_API_KEY_SECRETS
+  apiKeySecret: string;
+  // Replace ALLOWED_INDICES, CACHE_TTL_POLICY, ALGOLIA_KEY_POLICY and extend
+  // CORS_POLICY for this tenant
+  allowedIndices?: string[];
+  ttlPolicy?: TtlRule[];
+  keyPolicy?: KeyPolicy;
+  cors?: Partial<CorsPolicy>;
+};
+
+// The tenant a request was resolved to
+type Tenant = {
+  id: string;
+  appId: string;
+  apiKey: string;
+  allowedIndices?: string[];
+  ttlPolicy?: TtlRule[];
+  keyPolicy?: KeyPolicy;
+  cors?: Partial<CorsPolicy>;
+};
+
 type RequestContext = {
+  requestId: string;
+  receivedAt: number;
   url: URL;
   origin: string;
   isSSRRequest: boolean;
   method: string;
   pathname: string;
   searchParams: URLSearchParams;
+  tenant: Tenant;
+  // Data center serving the request, scopes the CacheLock to the colo's cache
+  colo?: string;
 };
 
 // ============================================================================
@@ -82,16 +458,247 @@ const SERVICE_NAME = "algolia-proxy" as const;
 const ALLOWED_QUERY_REGEX =
   /^[\x20-\x7E\xA0-\xFF★•‚''„"""'›‹–…‒√°¬♥ᵘᵖⓇ™&⎥€∴ː∅ÆæĀāČčǝĒēЁёęłıÏïîÑñŌō⌀ŠšẞßŪū]+$/;
 
-const ALLOWED_ORIGIN_PATTERN =
-  /^https:\/\/([a-z0-9-]+\.)*avocadostore\.(de|dev)$/;
-const LOCALHOST_PATTERN = /^http:\/\/localhost(:\d+)?$/;
+// Character classes a validation rule can select
+const QUERY_CHARSETS: Record<string, RegExp> = {
+  default: ALLOWED_QUERY_REGEX,
+  // Letters of any Latin-script language plus digits, punctuation and symbols
+  latin: /^[\p{Script=Latin}\p{N}\p{P}\p{S}\p{Zs}]+$/u,
+  // Anything printable
+  any: /^[^\p{C}]+$/u,
+};
+const DEFAULT_VALIDATION_RULE: Required<Omit<ValidationRule, "index">> = {
+  minLength: 3,
+  maxLength: Number.POSITIVE_INFINITY,
+  allowEmpty: true,
+  charset: "default",
+};
+
+const DEFAULT_CORS_POLICY: CorsPolicy = {
+  origins: [
+    "https://avocadostore.de",
+    "https://avocadostore.dev",
+    "https://dash.cloudflare.com",
+  ],
+  originPatterns: ["https://*.avocadostore.de", "https://*.avocadostore.dev"],
+  allowLocalhost: true,
+  methods: ["GET", "POST", "OPTIONS"],
+  headers: [
+    "Content-Type",
+    "x-algolia-agent",
+    "x-algolia-api-key",
+    "x-algolia-application-id",
+    "x-as-cache-key",
+    "x-as-debug",
+    "x-ssr-request",
+  ],
+  maxAge: 86400,
+  credentials: false,
+};
+const LOCALHOST_PATTERN = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/;
+// Type check for each CorsPolicy field an override may set
+const CORS_FIELD_CHECKS: Record<keyof CorsPolicy, (value: unknown) => boolean> = {
+  origins: isStringArray,
+  originPatterns: isStringArray,
+  allowLocalhost: (value) => typeof value === "boolean",
+  methods: isStringArray,
+  headers: isStringArray,
+  maxAge: (value) => Number.isInteger(value) && (value as number) >= 0,
+  credentials: (value) => typeof value === "boolean",
+};
+// Shape check for each JSON configuration variable, shared by readJsonConfig
+// and the health check so both reject the same values
+const JSON_CONFIG_CHECKS = {
+  CACHE_TTL_POLICY: Array.isArray,
+  ALGOLIA_KEY_POLICY: isKeyPolicy,
+  RATE_LIMIT_POLICY: isJsonObject,
+  ALLOWED_INDICES: isStringArray,
+  SSR_SIGNING_KEYS: (value: unknown) =>
+    isJsonObject(value) && Object.values(value as object).every((key) => typeof key === "string"),
+  TENANTS: Array.isArray,
+  CORS_POLICY: isJsonObject,
+  VALIDATION_POLICY: isJsonObject,
+  QUERY_NORMALIZATION: Array.isArray,
+  RESPONSE_SLIMMING: Array.isArray,
+  DEBUG_ORIGINS: isStringArray,
+} satisfies Record<string, (value: unknown) => boolean>;
+type JsonConfigName = keyof typeof JSON_CONFIG_CHECKS;
 const ENVIRONMENT = "production";
-const CLOUDFLARE_DASHBOARD = "https://dash.cloudflare.com";
-const BLACKLIST_HEADERS_FOR_GET = [
-  "content-type",
-  "content-length",
-  "transfer-encoding",
+const INSIGHTS_PATH = "/1/events" as const;
+// Hit fields keyed by attribute, trimmed to the client attribute set as well
+const PER_ATTRIBUTE_HIT_FIELDS = ["_highlightResult", "_snippetResult"];
+// Search metadata kept for client callers besides their attribute set; other
+// `_` attributes such as `_tags` or `_geoloc` are record data like any other
+const HIT_METADATA_FIELDS = [...PER_ATTRIBUTE_HIT_FIELDS, "_rankingInfo", "_distinctSeqID"];
+const CACHED_AT_HEADER = "X-AS-Cached-At" as const;
+// Cache keys live on a fixed origin instead of the serving hostname, so purges
+// from the admin host find entries stored under any tenant hostname
+const CACHE_KEY_ORIGIN = "https://algolia-cache.internal" as const;
+const ADMIN_PURGE_PATH = "/_admin/cache/purge" as const;
+const MULTI_QUERY_PATH = "/1/indexes/*/queries" as const;
+const REINDEX_WEBHOOK_PATH = "/_webhooks/reindex" as const;
+const GENERATIONS_HEADER = "X-AS-Generations" as const;
+const GENERATION_KV_CACHE_TTL = 60;
+// Registry instances per index: stores spread over them by key hash, purges fan out
+const CACHE_REGISTRY_SHARDS = 16;
+const SSR_HEADER = "x-ssr-request" as const;
+const WEBHOOK_MAX_SKEW_SECONDS = 300;
+// Algolia operations the proxy forwards; anything else is rejected with a 403.
+// Index-level settings, rules, synonyms, browse and keys are never reachable.
+const PROXY_ROUTES: readonly ProxyRoute[] = [
+  { name: "multi_query", method: "POST", pattern: /^\/1\/indexes\/\*\/queries$/ },
+  { name: "query", method: "POST", pattern: /^\/1\/indexes\/[^/*]+\/query$/ },
+  { name: "query", method: "GET", pattern: /^\/1\/indexes\/[^/*]+$/ },
+  {
+    name: "facet_search",
+    method: "POST",
+    pattern: /^\/1\/indexes\/[^/*]+\/facets\/[^/]+\/query$/,
+  },
+  {
+    name: "object",
+    method: "GET",
+    pattern: /^\/1\/indexes\/[^/*]+\/(?!(?:settings|browse|keys)$)[^/]+$/,
+  },
+  { name: "insights", method: "POST", pattern: /^\/1\/events$/ },
 ];
+// Request headers (lowercased) forwarded to Algolia. Everything else, including
+// cookies, Authorization, x-algolia-api-key, x-ssr-request and X-AS-Cache-Key,
+// stays in the worker.
+const FORWARDED_HEADERS = new Set([
+  "accept",
+  "accept-language",
+  "content-type",
+  "user-agent",
+  "x-algolia-usertoken",
+]);
+// Circuit breaker for Algolia hosts: consecutive failures that open a circuit,
+// how long it stays open before a half-open probe, and the weight of the latest
+// sample in the latency moving average
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+const LATENCY_SMOOTHING = 0.3;
+// Upstream timeouts unless overridden through ALGOLIA_*_MS variables
+const DEFAULT_UPSTREAM_TIMEOUTS: UpstreamTimeouts = {
+  connectMs: 2_000,
+  attemptMs: 5_000,
+  budgetMs: 10_000,
+  hedgeAfterMs: 0,
+};
+// Abort reason for hedged attempts that lost the race
+const CANCELLED = "cancelled";
+const HEALTH_PATH = "/_health" as const;
+const READY_PATH = "/_ready" as const;
+// Lightweight, unauthenticated Algolia endpoint used by /_ready
+const READY_PROBE_PATH = "/1/isalive" as const;
+const READY_PROBE_TIMEOUTS: UpstreamTimeouts = {
+  connectMs: 1_000,
+  attemptMs: 2_000,
+  budgetMs: 2_000,
+  hedgeAfterMs: 0,
+};
+// How long /_ready reuses its host probes before calling Algolia again
+const READY_PROBE_CACHE_MS = 5_000;
+const DEBUG_HEADER = "x-as-debug" as const;
+const UPSTREAM_HOST_HEADER = "X-AS-Upstream-Host" as const;
+const UPSTREAM_ATTEMPTS_HEADER = "X-AS-Upstream-Attempts" as const;
+// Headers stored with cache entries for the worker's own use, removed before
+// responses go to clients
+const INTERNAL_CACHE_HEADERS = [CACHED_AT_HEADER, GENERATIONS_HEADER, "Cache-Tag"];
+// Data points kept by the in-memory metrics stand-in
+const LOCAL_METRICS_LIMIT = 1000;
+// Token buckets kept by the in-memory rate limiter stand-in; least recently used go first
+const LOCAL_BUCKET_LIMIT = 10000;
+const REDACTED = "[REDACTED]";
+// Log and error fields (lowercased) whose values are always masked
+const SENSITIVE_KEYS = new Set([
+  "x-algolia-api-key",
+  "apikey",
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "x-ssr-request",
+  "x-as-signature",
+  "cf-connecting-ip",
+  "x-forwarded-for",
+  "x-real-ip",
+  "true-client-ip",
+  "ip",
+  "usertoken",
+  "authenticatedusertoken",
+  "x-algolia-usertoken",
+]);
+// Secrets embedded in strings: URL or `params` query pairs, serialized JSON
+// bodies, and IP addresses (IPv6 needs 3+ colons so timestamps survive)
+const SENSITIVE_PARAM_PATTERN =
+  /(^|[?&"\s])((?:x-algolia-api-key|apiKey|userToken|authenticatedUserToken|x-algolia-usertoken)=)[^&\s"]*/gi;
+const SENSITIVE_JSON_PATTERN =
+  /("(?:x-algolia-api-key|apiKey|userToken|authenticatedUserToken|x-ssr-request|cookie|authorization)"\s*:\s*")(?:[^"\\]|\\.)*"/gi;
+const IPV4_PATTERN = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g;
+const IPV6_PATTERN = /\b[0-9a-f]{1,4}(?::[0-9a-f]{0,4}){3,7}\b/gi;
+// Minimum length of configured secrets masked wherever they appear
+const MIN_REDACTED_SECRET_LENGTH = 8;
+// Query params (lowercased) that identify the caller rather than the search
+const NON_KEY_PARAMS = new Set([
+  "x-algolia-api-key",
+  "x-algolia-application-id",
+  "x-algolia-agent",
+  "cachekey",
+]);
+
+// Tenant of every request when TENANTS is unset; its cache keys carry no tenant
+const DEFAULT_TENANT_ID = "default";
+
+// Secret bindings a tenant's `apiKeySecret` may name
+const TENANT_API_KEY_SECRETS = [
+  "ALGOLIA_API_KEY",
+  "ALGOLIA_API_KEY_AT",
+  "ALGOLIA_API_KEY_B2B",
+] as const;
+
+// Only changes that keep Algolia's results identical are on by default
+const DEFAULT_QUERY_NORMALIZATION: QueryNormalization = {
+  whitespace: true,
+  unicode: true,
+  lowercase: false,
+  sortFilters: false,
+};
+const NORMALIZED_ROUTES: ProxyRoute["name"][] = ["multi_query", "query", "facet_search"];
+const NORMALIZED_QUERY_PARAMS = ["query", "facetQuery"];
+const NORMALIZED_FILTER_PARAMS = ["facetFilters", "numericFilters", "tagFilters"];
+
+// In-flight upstream calls per cache key, shared by concurrent misses in this isolate
+const inflightUpstream = new Map<string, Promise<UpstreamSnapshot>>();
+
+// Parsed JSON configuration variables, reused while the raw value is unchanged
+const jsonConfigCache = new Map<string, { source: string; value: unknown }>();
+
+// Stand-in token buckets used when no RATE_LIMITER namespace is bound.
+// Limits then only hold per isolate.
+const localBuckets = new Map<string, BucketState>();
+
+// Secrets and query mode for log redaction, taken from the env of the current
+// request (the env is the same for every request an isolate serves)
+const redaction = {
+  secrets: [] as string[],
+  hashQueries: false,
+};
+
+// Stand-in for the METRICS Analytics Engine dataset when it is not bound (local
+// development and tests): keeps the most recent data points of this isolate
+const localMetrics: AnalyticsEngineDataPoint[] = [];
+
+// Per-host failure and latency tracking for Algolia failover, per isolate
+const hostHealth = new Map<string, HostHealth>();
+
+// CORS_POLICY and tenant `cors` overrides after type checks, keyed by the parsed
+// config object so invalid fields are only logged once per config
+const checkedCorsOverrides = new WeakMap<object, Partial<CorsPolicy>>();
+
+// Latest /_ready host probes per application id, reused for READY_PROBE_CACHE_MS
+const readyProbes = new Map<string, { hosts: Promise<HostProbe[]>; probedAt: number }>();
+
+// Stand-in generation store used when no CACHE_GENERATIONS namespace is bound
+// (local development and tests). Generations are only visible to this isolate.
+const localGenerations = new Map<string, number>();
 
 // ============================================================================
 // MAIN HANDLER
@@ -104,28 +711,125 @@ export default {
     ctx: ExecutionContext
   ): Promise<Response> {
     const startTime = Date.now();
+    configureRedaction(env);
     const url = new URL(request.url);
     const requestOrigin = request.headers.get("Origin");
     const origin = requestOrigin || "*";
-    const ssrHeaderValue = request.headers.get("x-ssr-request");
-    const isSSRRequest = ssrHeaderValue === "ASDf928gh2efhajsdf!!";
+    const ssrHeaderValue = request.headers.get(SSR_HEADER);
+    let isSSRRequest = false;
+    if (ssrHeaderValue) {
+      const verification = await verifySsrToken(
+        ssrHeaderValue,
+        request.method,
+        url.pathname,
+        env
+      );
+      isSSRRequest = verification.valid;
+      if (!verification.valid) {
+        ctx.waitUntil(
+          logEvent("warn", `[SSR] Rejected SSR token (${verification.reason}), request: ${url.pathname}`, {
+            origin,
+            url: request.url,
+            method: request.method,
+            reason: verification.reason,
+            key_id: verification.keyId,
+            user_agent: request.headers.get("User-Agent") || "unknown",
+          })
+        );
+      }
+    }
 
+    const tenant = resolveTenant(request, env);
     const reqContext: RequestContext = {
+      requestId: request.headers.get("CF-Ray") || crypto.randomUUID(),
+      receivedAt: startTime,
       url,
       origin,
       isSSRRequest,
       method: request.method,
       pathname: url.pathname,
       searchParams: url.searchParams,
+      // Unknown hosts are rejected below; the default tenant only shapes that response
+      tenant: tenant ?? getDefaultTenant(env),
+      colo: (request.cf as IncomingRequestCfProperties | undefined)?.colo,
     };
 
+    // Health routes answer before rate limiting, caching and metrics
+    if (reqContext.pathname === HEALTH_PATH) {
+      return handleHealth(env);
+    }
+
+    if (reqContext.pathname === READY_PATH) {
+      return handleReady(request, env);
+    }
+
+    if (reqContext.pathname === ADMIN_PURGE_PATH) {
+      return handleCachePurge(request, env);
+    }
+
+    if (reqContext.pathname === REINDEX_WEBHOOK_PATH) {
+      return handleReindexWebhook(request, env);
+    }
+
+    if (!tenant) {
+      return rejectRequest(request, reqContext, env, ctx, 421, {
+        error: "Unknown host",
+        errorType: "unknown_tenant",
+        details: `No tenant for host ${url.hostname}${requestOrigin ? ` or origin ${requestOrigin}` : ""}`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     if (request.method === "OPTIONS") {
-      return handleOptions(reqContext);
+      return handleOptions(reqContext, env);
+    }
+
+    const route = matchProxyRoute(request.method, reqContext.pathname);
+    if (!route) {
+      return rejectRequest(request, reqContext, env, ctx, 403, {
+        error: "Route not allowed",
+        errorType: "forbidden",
+        details: `${request.method} ${reqContext.pathname} is not a proxied Algolia operation`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Fail closed: without a key policy the parent key would go upstream unrestricted
+    if (!getKeyPolicy(env, tenant)) {
+      return rejectRequest(request, reqContext, env, ctx, 500, {
+        error: "Key policy not configured",
+        errorType: "config_error",
+        details: `ALGOLIA_KEY_POLICY is unset or invalid and tenant ${tenant.id} has no keyPolicy`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const rateLimit = await checkRateLimit(request, reqContext, env);
+    if (!rateLimit.allowed) {
+      return rejectRequest(
+        request,
+        reqContext,
+        env,
+        ctx,
+        429,
+        {
+          error: "Rate limit exceeded",
+          errorType: "rate_limited",
+          details: `Retry after ${rateLimit.retryAfter} second(s)`,
+          timestamp: new Date().toISOString(),
+        },
+        { "Retry-After": String(rateLimit.retryAfter) }
+      );
     }
 
+    const timings: ServerTimings = {};
     let bodyStr: string | undefined;
+    let body: IncomingBody | undefined;
+    let rejected: ValidationFailure[] = [];
     if (request.method === "POST") {
-      const result = await parseRequestBody(request);
+      const parseStart = Date.now();
+      const result = await parseRequestBody(request, route, reqContext.pathname, env);
+      timings.parse = Date.now() - parseStart;
       if (result.error) {
         // Parse error details from response for logging
         const errorText = await result.error.clone().text();
@@ -138,102 +842,229 @@ export default {
 
         ctx.waitUntil(
           logEvent("error", `[FAILED] ${errorDetails?.error || "Validation error"} Algolia request to: ${reqContext.pathname}`, {
+            request_id: reqContext.requestId,
             origin,
             url: request.url,
             method: request.method,
             error: errorDetails?.error || "Validation error",
             error_type: errorDetails?.errorType,
             error_details: errorDetails?.details,
+            request_index: errorDetails?.requestIndex,
             is_ssr_request: isSSRRequest,
             user_agent: request.headers.get("User-Agent") || "unknown",
           })
         );
-        return result.error;
+        ctx.waitUntil(
+          recordMetrics(env, reqContext, result.error, {
+            indexNames: getIndexNames(reqContext.pathname),
+            cacheStatus: "BYPASS",
+          })
+        );
+        const response = addDebugHeaders(result.error, reqContext, {
+          cacheStatus: "BYPASS",
+          timings,
+          verbose: isDebugAllowed(request, reqContext, env),
+        });
+        return addCorsHeaders(response, reqContext, env);
+      }
+      body = result.body && normalizeBody(result.body, route, reqContext.pathname, env);
+      bodyStr = JSON.stringify(body);
+      rejected = result.rejected ?? [];
+      if (rejected.length > 0) {
+        ctx.waitUntil(
+          logEvent("warn", `[VALIDATION] Answering ${rejected.length} invalid sub-request(s) with empty results, request: ${reqContext.pathname}`, {
+            origin,
+            url: request.url,
+            rejected: rejected.map(({ position, errorType, query }) => ({
+              position,
+              error_type: errorType,
+              query,
+            })),
+            is_ssr_request: isSSRRequest,
+          })
+        );
       }
-      bodyStr = JSON.stringify(result.body);
+    } else {
+      normalizeSearchUrl(url, route, env);
+    }
+
+    const forbiddenIndices = findForbiddenIndices(reqContext, body, env);
+    if (forbiddenIndices.length > 0) {
+      return rejectRequest(request, reqContext, env, ctx, 403, {
+        error: "Index not allowed",
+        errorType: "forbidden",
+        details: `Index(es) not allowed: ${forbiddenIndices.join(", ")}`,
+        timestamp: new Date().toISOString(),
+      });
     }
 
     // Caching Logic
     // Note: Cloudflare Cache API caches responses based on the full request URL.
-    // For POST requests, we create a synthetic GET request with a cache key parameter.
+    // Both POST and GET requests are stored under a synthetic GET URL with a cache
+    // key parameter. The key is derived from the canonicalized body (POST) or query
+    // string (GET), so identical searches share an entry regardless of param order;
+    // a client-supplied key only overrides it.
     // Cache SSR requests when CACHE_TTL_SSR > 0, and client-side requests when CACHE_TTL_CLIENT > 0.
     // Reference: https://developers.cloudflare.com/workers/runtime-apis/cache/
     const cache = caches.default;
-    const cacheKeyParam =
+    const cacheKeyOverride =
       reqContext.searchParams.get("cacheKey") ||
       request.headers.get("X-AS-Cache-Key");
     let cacheKeyUrl: string | undefined;
-    let response: Response | undefined;
-    let isCacheHit = false;
-
-    const cacheTtlClient = parseInt(env.CACHE_TTL_CLIENT || "0", 10) || 0;
-    const shouldCache = isSSRRequest || cacheTtlClient > 0;
-
-    if (request.method === "POST" && cacheKeyParam && shouldCache) {
-      const cacheUrl = new URL(url.toString());
-      cacheUrl.searchParams.set("cacheKey", cacheKeyParam);
-
-      // Add SSR indicator to cache key to separate SSR and client-side cache entries
-      cacheUrl.searchParams.set("ssr", isSSRRequest ? "1" : "0");
-      cacheKeyUrl = cacheUrl.toString();
-
-      // Create a GET request for cache lookup (POST requests are not cached by default)
-      // Filter out body-related headers that would conflict with GET method
-      const cacheHeaders = new Headers();
-      for (const [key, value] of request.headers.entries()) {
-        const lowerKey = key.toLowerCase();
-        if (!BLACKLIST_HEADERS_FOR_GET.includes(lowerKey)) {
-          cacheHeaders.set(key, value);
-        }
-      }
+    let generations: IndexGenerations = {};
+    // Nothing to ask Algolia when partial validation removed every sub-request
+    let response: Response | undefined =
+      rejected.length > 0 && body?.requests?.length === 0
+        ? Response.json({ results: [] })
+        : undefined;
+    let staleResponse: Response | undefined;
+    let cacheStatus: CacheStatus = "BYPASS";
 
-      const cachedResponse = await cache.match(cacheKeyUrl);
+    const indexNames = getIndexNames(reqContext.pathname, body);
+    const cachePolicy = getCachePolicy(
+      env,
+      isSSRRequest,
+      reqContext.pathname,
+      indexNames,
+      reqContext.tenant
+    );
+    const shouldCache = cachePolicy.ttl > 0;
 
-      if (cachedResponse) {
-        response = cachedResponse;
-        isCacheHit = true;
-      } else {
-        isCacheHit = false;
-      }
-    }
+    // Multi-queries are cached per sub-request, so changing one refinement still
+    // reuses the cached results of the other queries in the batch
+    const subRequestPlan =
+      !response && request.method === "POST" && body && !cacheKeyOverride
+        ? await planSubRequests(reqContext, body, env)
+        : undefined;
 
-    if (!response) {
-      response = await fetchFromAlgolia(
+    if (subRequestPlan) {
+      ({ response, cacheStatus } = await fetchSubRequests(
+        subRequestPlan,
         reqContext,
         request.headers,
-        bodyStr,
         env,
-        isSSRRequest
+        ctx,
+        timings
+      ));
+    } else if (
+      !response &&
+      ((request.method === "POST" && body) || request.method === "GET") &&
+      shouldCache &&
+      isCacheablePath(reqContext.pathname)
+    ) {
+      const cacheKey =
+        cacheKeyOverride ||
+        (body
+          ? await deriveCacheKey(body, reqContext.pathname, isSSRRequest)
+          : await deriveUrlCacheKey(
+              reqContext.searchParams,
+              reqContext.pathname,
+              isSSRRequest
+            ));
+      cacheKeyUrl = buildCacheKeyUrl(
+        reqContext.pathname,
+        cacheKey,
+        isSSRRequest,
+        resolveKeyRestrictions(env, reqContext)?.scope,
+        reqContext.tenant.id
       );
+      cacheStatus = "MISS";
 
-      if (cacheKeyUrl && response.ok && shouldCache) {
-        const responseToCache = response.clone();
-        const headers = new Headers(responseToCache.headers);
-
-        const cacheTtl = isSSRRequest
-          ? parseInt(env.CACHE_TTL_SSR || "600", 10) || 600
-          : parseInt(env.CACHE_TTL_CLIENT || "0", 10) || 0;
+      const cacheStart = Date.now();
+      const [cachedResponse, currentGenerations] = await Promise.all([
+        cache.match(cacheKeyUrl),
+        getGenerationStore(env, reqContext.tenant.id).get(indexNames),
+      ]);
+      timings.cache = Date.now() - cacheStart;
+      generations = currentGenerations;
 
-        headers.set("Cache-Control", `public, max-age=${cacheTtl}`);
+      if (cachedResponse) {
+        const freshness = classifyCachedEntry(cachedResponse, cachePolicy, generations);
+        if (freshness === "fresh") {
+          response = cachedResponse;
+          cacheStatus = "HIT";
+        } else if (freshness === "stale") {
+          response = markStale(cachedResponse);
+          cacheStatus = "STALE";
+          ctx.waitUntil(
+            revalidateCache(
+              cacheKeyUrl,
+              cachePolicy,
+              reqContext,
+              request.headers,
+              bodyStr,
+              generations,
+              env
+            )
+          );
+        } else if (freshness === "fallback") {
+          staleResponse = cachedResponse;
+        }
+      }
+    }
 
-        const cachedResponse = new Response(responseToCache.body, {
-          status: responseToCache.status,
-          statusText: responseToCache.statusText,
-          headers: headers,
-        });
+    if (!response) {
+      const upstreamStart = Date.now();
+      let sharedUpstream = false;
+      if (cacheKeyUrl) {
+        const upstream = await fetchFromAlgoliaCoalesced(
+          cacheKeyUrl,
+          reqContext,
+          request.headers,
+          bodyStr,
+          env
+        );
+        response = fromSnapshot(upstream.snapshot);
+        sharedUpstream = upstream.shared;
+      } else {
+        response = await fetchFromAlgolia(
+          reqContext,
+          request.headers,
+          bodyStr,
+          env,
+          isSSRRequest
+        );
+      }
+      timings.upstream = Date.now() - upstreamStart;
 
-        // Store using GET Request object as the cache key (must match the lookup request)
-        const storeCacheHeaders = new Headers();
-        for (const [key, value] of request.headers.entries()) {
-          const lowerKey = key.toLowerCase();
-          if (!BLACKLIST_HEADERS_FOR_GET.includes(lowerKey)) {
-            storeCacheHeaders.set(key, value);
-          }
-        }
-        ctx.waitUntil(cache.put(cacheKeyUrl, cachedResponse));
+      if (cacheKeyUrl && response.ok && shouldCache && !sharedUpstream) {
+        // Store using the same synthetic URL as the lookup
+        ctx.waitUntil(
+          storeInCache(
+            cacheKeyUrl,
+            response.clone(),
+            cachePolicy,
+            generations,
+            env,
+            reqContext.tenant.id
+          )
+        );
+      } else if (staleResponse && !response.ok) {
+        ctx.waitUntil(
+          logEvent("warn", `[STALE] Serving stale response after upstream failure, request: ${reqContext.pathname}`, {
+            origin,
+            url: request.url,
+            method: request.method,
+            status: response.status,
+            cache_age_seconds: getCacheAge(staleResponse),
+            is_ssr_request: isSSRRequest,
+          })
+        );
+        response = markStale(staleResponse);
+        cacheStatus = "STALE";
       }
     }
 
+    if (rejected.length > 0) {
+      response = await mergeRejectedResults(response, rejected);
+    }
+
+    const upstream = readUpstreamInfo(response);
+    response = withoutUpstreamInfo(response);
+    ctx.waitUntil(
+      recordMetrics(env, reqContext, response, { indexNames, cacheStatus, upstream })
+    );
+
     const duration = Date.now() - startTime;
     ctx.waitUntil(
       logRequest(
@@ -241,151 +1072,2237 @@ export default {
         request.headers,
         response,
         duration,
-        isCacheHit,
+        cacheStatus,
         bodyStr
       )
     );
 
-    return addCorsHeaders(response, origin, isSSRRequest);
+    response = addDebugHeaders(response, reqContext, {
+      cacheStatus,
+      upstream,
+      timings,
+      verbose: isDebugAllowed(request, reqContext, env),
+    });
+    return addCorsHeaders(response, reqContext, env);
   },
 } satisfies ExportedHandler<Env>;
 
+// ============================================================================
+// DURABLE OBJECTS
+// ============================================================================
+
+/**
+ * Coalesces upstream calls across the isolates of one colo: one instance per
+ * colo and cache key, so all concurrent misses that fill the same colo cache end
+ * up in the same in-memory `inflightUpstream`.
+ */
+export class CacheLock extends DurableObject<Env> {
+  async fetchUpstream(
+    cacheKeyUrl: string,
+    request: UpstreamRequest
+  ): Promise<CoalescedUpstream> {
+    configureRedaction(this.env);
+    const tenant = getTenantById(this.env, request.tenantId);
+    if (!tenant) {
+      throw new Error(`Unknown tenant: ${request.tenantId}`);
+    }
+    const url = new URL(request.url);
+    const ctx: RequestContext = {
+      requestId: request.requestId,
+      receivedAt: Date.now(),
+      url,
+      origin: request.origin,
+      isSSRRequest: request.isSSRRequest,
+      method: request.method,
+      pathname: url.pathname,
+      searchParams: url.searchParams,
+      tenant,
+    };
+
+    return coalesceUpstream(cacheKeyUrl, () =>
+      fetchFromAlgolia(
+        ctx,
+        new Headers(request.headers),
+        request.body,
+        this.env,
+        request.isSSRRequest
+      )
+    );
+  }
+}
+
+/**
+ * Token bucket for one client key. State lives in memory: an evicted instance
+ * simply starts with a full bucket again.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  private state: BucketState | undefined;
+
+  async take(bucket: RateLimitBucket): Promise<RateLimitResult> {
+    this.state ??= { tokens: bucket.capacity, updatedAt: Date.now() };
+    return takeToken(this.state, bucket);
+  }
+}
+
+/**
+ * Remembers which cache keys were stored for an index, since the Cache API
+ * cannot enumerate its entries. Each index is split over CACHE_REGISTRY_SHARDS
+ * instances so that busy indices do not funnel every store through one object.
+ */
+export class CacheKeyRegistry extends DurableObject<Env> {
+  async register(cacheKeyUrl: string, expiresAt: number): Promise<void> {
+    await this.ctx.storage.put(cacheKeyUrl, expiresAt);
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(expiresAt);
+    }
+  }
+
+  /**
+   * Returns all live keys. They are kept until they expire: a purge only clears
+   * the current colo's cache, so other colos must still be able to purge them.
+   */
+  async liveKeys(): Promise<string[]> {
+    const entries = await this.ctx.storage.list<number>();
+    const now = Date.now();
+    return [...entries]
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([cacheKeyUrl]) => cacheKeyUrl);
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    let nextExpiry: number | undefined;
+    for (const [cacheKeyUrl, expiresAt] of await this.ctx.storage.list<number>()) {
+      if (expiresAt <= now) {
+        await this.ctx.storage.delete(cacheKeyUrl);
+      } else if (nextExpiry === undefined || expiresAt < nextExpiry) {
+        nextExpiry = expiresAt;
+      }
+    }
+    if (nextExpiry !== undefined) {
+      await this.ctx.storage.setAlarm(nextExpiry);
+    }
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-function handleOptions(ctx: RequestContext): Response {
-  const headers: Record<string, string> = {
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers":
-      "Content-Type, x-algolia-agent, x-algolia-api-key, x-algolia-application-id, x-as-cache-key, x-ssr-request",
-    "Access-Control-Max-Age": "86400",
-  };
+/**
+ * Verifies an SSR token of the form `<keyId>.<timestamp>.<signature>`, where the
+ * signature is the hex HMAC-SHA256 of `<timestamp>.<METHOD>.<pathname>` with the
+ * key named in SSR_SIGNING_KEYS (a JSON object of key id to secret, so several
+ * keys can be active during rotation).
+ */
+async function verifySsrToken(
+  token: string,
+  method: string,
+  pathname: string,
+  env: Env
+): Promise<SsrVerification> {
+  let keys: Record<string, string>;
+  try {
+    keys = JSON.parse(env.SSR_SIGNING_KEYS || "{}") as Record<string, string>;
+  } catch {
+    return { valid: false, reason: "not_configured" };
+  }
 
-  if (ctx.isSSRRequest) {
-    headers["Access-Control-Allow-Origin"] = "https://www.avocadostore.de";
-  } else if (ctx.origin && isOriginAllowed(ctx.origin)) {
-    headers["Access-Control-Allow-Origin"] = ctx.origin;
-    headers["Vary"] = "Origin";
-  } else {
-    headers["Access-Control-Allow-Origin"] = "https://www.avocadostore.de";
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return { valid: false, reason: "malformed" };
   }
 
-  return new Response(null, {
-    status: 204,
-    headers,
-  });
+  const [keyId, timestamp, signature] = parts;
+  const secret = keys[keyId];
+  if (typeof secret !== "string" || !secret) {
+    return { valid: false, reason: "unknown_key", keyId };
+  }
+
+  const issuedAt = parseInt(timestamp, 10);
+  const maxAge = parseInteger(env.SSR_TOKEN_MAX_AGE, 300);
+  if (!issuedAt || Math.abs(Date.now() / 1000 - issuedAt) > maxAge) {
+    return { valid: false, reason: "expired", keyId };
+  }
+
+  const expected = await hmacSha256Hex(
+    secret,
+    `${timestamp}.${method.toUpperCase()}.${pathname}`
+  );
+  if (!timingSafeEqualString(signature, expected)) {
+    return { valid: false, reason: "bad_signature", keyId };
+  }
+
+  return { valid: true, keyId };
 }
 
-async function fetchFromAlgolia(
+/**
+ * Applies RATE_LIMIT_POLICY to search and insights requests, keyed by route,
+ * client IP and SSR status. Fails open if the limiter is unavailable.
+ */
+async function checkRateLimit(
+  request: Request,
   ctx: RequestContext,
-  originalHeaders: Headers,
-  bodyStr?: string,
-  env?: Env,
-  isSSRRequest?: boolean
-): Promise<Response> {
-  const { pathname } = ctx;
-  const userAgent = originalHeaders.get("User-Agent") || "unknown";
-  // Create a copy of searchParams to avoid mutating the original URL
-  const algoliaParams = new URLSearchParams(ctx.searchParams.toString());
-  algoliaParams.set("x-algolia-api-key", env?.ALGOLIA_API_KEY || "");
-  algoliaParams.set(
-    "x-algolia-application-id",
-    env?.ALGOLIA_APPLICATION_ID || ""
+  env: Env
+): Promise<RateLimitResult> {
+  const policy = readJsonConfig<RateLimitPolicy>(
+    "RATE_LIMIT_POLICY",
+    env.RATE_LIMIT_POLICY,
+    {}
   );
+  const route =
+    ctx.pathname === INSIGHTS_PATH
+      ? "insights"
+      : ctx.pathname.startsWith("/1/indexes/")
+        ? "search"
+        : undefined;
+  const bucket = ctx.isSSRRequest
+    ? policy.ssr
+    : route
+      ? policy[route]
+      : undefined;
+  if (!route || !bucket) {
+    return { allowed: true, retryAfter: 0 };
+  }
 
-  const headers: Record<string, string> = {};
-  for (const [key, value] of originalHeaders.entries()) {
-    headers[key] = value;
+  // Origin is client-controlled, so it must not select the bucket
+  const ip = request.headers.get("CF-Connecting-IP") || "unknown";
+  const key = `${route}:${ctx.isSSRRequest ? "ssr" : "client"}:${ip}`;
+
+  if (!env.RATE_LIMITER) {
+    const state = localBuckets.get(key) ?? { tokens: bucket.capacity, updatedAt: Date.now() };
+    // Re-insert so the map stays ordered by last use
+    localBuckets.delete(key);
+    localBuckets.set(key, state);
+    if (localBuckets.size > LOCAL_BUCKET_LIMIT) {
+      localBuckets.delete(localBuckets.keys().next().value as string);
+    }
+    return takeToken(state, bucket);
+  }
+
+  try {
+    return await env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key)).take(bucket);
+  } catch (e) {
+    await logEvent("warn", `[RATE_LIMIT] Rate limiter unavailable, allowing request: ${ctx.pathname}`, {
+      origin: ctx.origin,
+      url: ctx.url.toString(),
+      method: ctx.method,
+      error: String(e),
+      is_ssr_request: ctx.isSSRRequest,
+    });
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+function takeToken(state: BucketState, bucket: RateLimitBucket): RateLimitResult {
+  const now = Date.now();
+  const elapsed = Math.max(0, now - state.updatedAt) / 1000;
+  state.tokens = Math.min(
+    bucket.capacity,
+    state.tokens + elapsed * bucket.refillPerSecond
+  );
+  state.updatedAt = now;
+
+  if (state.tokens >= 1) {
+    state.tokens -= 1;
+    return { allowed: true, retryAfter: 0 };
+  }
+  return {
+    allowed: false,
+    retryAfter:
+      bucket.refillPerSecond > 0
+        ? Math.ceil((1 - state.tokens) / bucket.refillPerSecond)
+        : 60,
+  };
+}
+
+function handleOptions(ctx: RequestContext, env: Env): Response {
+  return new Response(null, {
+    status: 204,
+    headers: getCorsHeaders(ctx.origin, getCorsPolicy(env, ctx.tenant)),
+  });
+}
+
+/** Liveness: configuration sanity only, no upstream calls. */
+function handleHealth(env: Env): Response {
+  const config = checkConfig(env);
+  const healthy = Object.values(config).every(Boolean);
+  return healthResponse(healthy ? 200 : 503, {
+    status: healthy ? "ok" : "misconfigured",
+    version: getBuildVersion(env),
+    config,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Readiness: configuration sanity plus a probe of every Algolia host through
+ * `tryAlgoliaHosts` with short timeouts. Ready when the config is sane and at
+ * least one host answers.
+ */
+async function handleReady(request: Request, env: Env): Promise<Response> {
+  if (!env.READY_TOKEN) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const token = (request.headers.get("Authorization") || "").replace(/^Bearer /, "");
+  if (!timingSafeEqualString(token, env.READY_TOKEN)) {
+    await logEvent("warn", `[READY] Unauthorized readiness probe`, {
+      url: request.url,
+      user_agent: request.headers.get("User-Agent") || "unknown",
+    });
+    return jsonError(401, {
+      error: "Unauthorized",
+      errorType: "unauthorized",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const config = checkConfig(env);
+  const hosts = await probeHosts(env.ALGOLIA_APPLICATION_ID || "");
+  const ready =
+    Object.values(config).every(Boolean) && hosts.some((probe) => probe.ok);
+  return healthResponse(ready ? 200 : 503, {
+    status: ready ? "ready" : "unavailable",
+    version: getBuildVersion(env),
+    config,
+    hosts,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Probes every host of an application, sharing the result with concurrent and
+ * later readiness checks for READY_PROBE_CACHE_MS.
+ */
+function probeHosts(appId: string): Promise<HostProbe[]> {
+  const cached = readyProbes.get(appId);
+  if (cached && Date.now() - cached.probedAt < READY_PROBE_CACHE_MS) {
+    return cached.hosts;
+  }
+  const hosts = Promise.all(getHosts(appId).map(probeHost));
+  readyProbes.set(appId, { hosts, probedAt: Date.now() });
+  return hosts;
+}
+
+async function probeHost(host: string): Promise<HostProbe> {
+  const startedAt = Date.now();
+  const response = await tryAlgoliaHosts(
+    READY_PROBE_PATH,
+    "",
+    "GET",
+    {},
+    undefined,
+    [host],
+    false,
+    undefined,
+    READY_PROBE_TIMEOUTS
+  );
+  return {
+    host,
+    ok: response.ok,
+    status: response.status,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+function checkConfig(env: Env): Record<string, boolean> {
+  const isInteger = (value?: string) => value === undefined || /^\d+$/.test(value);
+  const isValidJson = (name: JsonConfigName) => {
+    const raw = env[name];
+    if (!raw) {
+      return true;
+    }
+    try {
+      parseJsonConfig(name, raw);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  return {
+    algolia_application_id: Boolean(env.ALGOLIA_APPLICATION_ID),
+    algolia_api_key: Boolean(env.ALGOLIA_API_KEY),
+    cache_ttls: [
+      env.CACHE_TTL_SSR,
+      env.CACHE_TTL_CLIENT,
+      env.CACHE_STALE_WHILE_REVALIDATE,
+      env.CACHE_STALE_IF_ERROR,
+    ].every(isInteger),
+    json_config: (Object.keys(JSON_CONFIG_CHECKS) as JsonConfigName[]).every(isValidJson),
+    tenant_api_keys: getTenantConfigs(env).every(
+      (tenant) => toTenant(tenant, env).apiKey !== ""
+    ),
+    algolia_key_policy: getTenants(env).every(
+      (tenant) => getKeyPolicy(env, tenant) !== undefined
+    ),
+  };
+}
+
+function getBuildVersion(env: Env): { id: string; tag?: string; timestamp?: string } {
+  const metadata = env.CF_VERSION_METADATA;
+  return metadata
+    ? { id: metadata.id, tag: metadata.tag || undefined, timestamp: metadata.timestamp }
+    : { id: "unknown" };
+}
+
+function healthResponse(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * Purges cache entries by client key, by search body (using the same key
+ * derivation as lookups) or by index. Both SSR and client variants of a key
+ * are removed. Note that the Cache API only affects the current colo.
+ */
+async function handleCachePurge(request: Request, env: Env): Promise<Response> {
+  if (!env.ADMIN_API_TOKEN) {
+    return new Response("Not Found", { status: 404 });
+  }
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: "POST" },
+    });
+  }
+
+  const token = (request.headers.get("Authorization") || "").replace(/^Bearer /, "");
+  if (!timingSafeEqualString(token, env.ADMIN_API_TOKEN)) {
+    await logEvent("warn", `[ADMIN] Unauthorized cache purge attempt`, {
+      url: request.url,
+      user_agent: request.headers.get("User-Agent") || "unknown",
+    });
+    return jsonError(401, {
+      error: "Unauthorized",
+      errorType: "unauthorized",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  let purge: PurgeRequest;
+  try {
+    purge = (await request.json()) as PurgeRequest;
+  } catch (e) {
+    return jsonError(400, {
+      error: "Malformed JSON body",
+      errorType: "malformed_json",
+      details: e instanceof Error ? e.message : String(e),
+      timestamp: new Date().toISOString(),
+    });
+  }
+  if (purge === null || typeof purge !== "object" || Array.isArray(purge)) {
+    return jsonError(400, {
+      error: "Malformed JSON body",
+      errorType: "malformed_json",
+      details: "Expected a JSON object",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const pathname = purge.path || MULTI_QUERY_PATH;
+  const cacheKeyUrls = new Set<string>();
+  const clientKeys = [
+    ...(purge.cacheKey ? [purge.cacheKey] : []),
+    ...(Array.isArray(purge.cacheKeys) ? purge.cacheKeys : []),
+  ];
+  for (const isSSRRequest of [true, false]) {
+    for (const cacheKey of clientKeys) {
+      cacheKeyUrls.add(
+        buildCacheKeyUrl(pathname, cacheKey, isSSRRequest, undefined, purge.tenant)
+      );
+    }
+    if (purge.body) {
+      const cacheKey = await deriveCacheKey(purge.body, pathname, isSSRRequest);
+      cacheKeyUrls.add(
+        buildCacheKeyUrl(pathname, cacheKey, isSSRRequest, undefined, purge.tenant)
+      );
+    }
+  }
+
+  if (purge.indexName) {
+    if (!env.CACHE_REGISTRY) {
+      return jsonError(400, {
+        error: "Purging by index requires the CACHE_REGISTRY binding",
+        errorType: "bad_request",
+        timestamp: new Date().toISOString(),
+      });
+    }
+    const registry = env.CACHE_REGISTRY;
+    const indexKey = tenantIndexKey(purge.tenant || DEFAULT_TENANT_ID, purge.indexName);
+    const shards = await Promise.all(
+      Array.from({ length: CACHE_REGISTRY_SHARDS }, (_, shard) =>
+        registry.get(registry.idFromName(`${indexKey}:${shard}`)).liveKeys()
+      )
+    );
+    for (const cacheKeyUrl of shards.flat()) {
+      cacheKeyUrls.add(cacheKeyUrl);
+    }
+  }
+
+  if (cacheKeyUrls.size === 0) {
+    return jsonError(400, {
+      error: "Nothing to purge",
+      errorType: "bad_request",
+      details: "Provide cacheKey, cacheKeys, body or indexName",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const results = await Promise.all(
+    [...cacheKeyUrls].map((cacheKeyUrl) => caches.default.delete(cacheKeyUrl))
+  );
+  const purged = results.filter(Boolean).length;
+
+  await logEvent("log", `[ADMIN] Purged ${purged} cache entries`, {
+    url: request.url,
+    purged,
+    checked: cacheKeyUrls.size,
+    index_name: purge.indexName,
+  });
+
+  return new Response(
+    JSON.stringify({
+      purged,
+      checked: cacheKeyUrls.size,
+      timestamp: new Date().toISOString(),
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+/**
+ * Called by the indexing pipeline after a reindex. Bumps the generation of each
+ * index so all its cache entries miss. Requests are signed with
+ * `X-AS-Signature: sha256=<hex HMAC of "<timestamp>.<body>">` and `X-AS-Timestamp`.
+ */
+async function handleReindexWebhook(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!env.REINDEX_WEBHOOK_SECRET) {
+    return new Response("Not Found", { status: 404 });
+  }
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: "POST" },
+    });
+  }
+
+  const rawBody = await request.text();
+  const timestamp = request.headers.get("X-AS-Timestamp") || "";
+  const signature = (request.headers.get("X-AS-Signature") || "").replace(/^sha256=/, "");
+  const skew = Math.abs(Date.now() / 1000 - (parseInt(timestamp, 10) || 0));
+  const expected = await hmacSha256Hex(
+    env.REINDEX_WEBHOOK_SECRET,
+    `${timestamp}.${rawBody}`
+  );
+
+  if (skew > WEBHOOK_MAX_SKEW_SECONDS || !timingSafeEqualString(signature, expected)) {
+    await logEvent("warn", `[WEBHOOK] Rejected reindex webhook with invalid signature`, {
+      url: request.url,
+      timestamp_skew_seconds: Math.round(skew),
+      user_agent: request.headers.get("User-Agent") || "unknown",
+    });
+    return jsonError(401, {
+      error: "Invalid signature",
+      errorType: "unauthorized",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  let reindex: ReindexRequest;
+  try {
+    reindex = JSON.parse(rawBody) as ReindexRequest;
+  } catch (e) {
+    return jsonError(400, {
+      error: "Malformed JSON body",
+      errorType: "malformed_json",
+      details: e instanceof Error ? e.message : String(e),
+      timestamp: new Date().toISOString(),
+    });
+  }
+  if (reindex === null || typeof reindex !== "object" || Array.isArray(reindex)) {
+    return jsonError(400, {
+      error: "Malformed JSON body",
+      errorType: "malformed_json",
+      details: "Expected a JSON object",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const indexNames = [
+    ...(reindex.indexName ? [reindex.indexName] : []),
+    ...(Array.isArray(reindex.indexNames) ? reindex.indexNames : []),
+  ];
+  if (indexNames.length === 0) {
+    return jsonError(400, {
+      error: "No index to invalidate",
+      errorType: "bad_request",
+      details: "Provide indexName or indexNames",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const store = getGenerationStore(env, reindex.tenant || DEFAULT_TENANT_ID);
+  const generations: IndexGenerations = {};
+  for (const indexName of indexNames) {
+    generations[indexName] = await store.bump(indexName);
+  }
+
+  await logEvent("log", `[WEBHOOK] Bumped cache generation for ${indexNames.join(", ")}`, {
+    url: request.url,
+    generations,
+  });
+
+  return new Response(
+    JSON.stringify({ generations, timestamp: new Date().toISOString() }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return toHex(signature);
+}
+
+function timingSafeEqualString(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.byteLength !== right.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(left, right);
+}
+
+function matchProxyRoute(method: string, pathname: string): ProxyRoute | undefined {
+  return PROXY_ROUTES.find(
+    (route) => route.method === method && route.pattern.test(pathname)
+  );
+}
+
+/**
+ * Index names from the path and from every `requests[].indexName` that match no
+ * pattern in the tenant's `allowedIndices`, else ALLOWED_INDICES. Unset allows
+ * every index; an invalid value allows none.
+ */
+function findForbiddenIndices(
+  ctx: RequestContext,
+  body: IncomingBody | undefined,
+  env: Env
+): string[] {
+  if (ctx.pathname === INSIGHTS_PATH) {
+    return [];
+  }
+  const patterns =
+    ctx.tenant.allowedIndices ??
+    readJsonConfig<string[]>(
+      "ALLOWED_INDICES",
+      env.ALLOWED_INDICES ?? '["*"]',
+      []
+    );
+  return getIndexNames(ctx.pathname, body).filter(
+    (indexName) => !patterns.some((pattern) => matchesGlob(pattern, indexName))
+  );
+}
+
+function getTenantConfigs(env: Env): TenantConfig[] {
+  return readJsonConfig<TenantConfig[]>("TENANTS", env.TENANTS, []);
+}
+
+/**
+ * Resolves the tenant of a request. Without TENANTS every request belongs to the
+ * default tenant (ALGOLIA_APPLICATION_ID/ALGOLIA_API_KEY); with it, a request
+ * matching no tenant resolves to undefined.
+ */
+function resolveTenant(request: Request, env: Env): Tenant | undefined {
+  const configs = getTenantConfigs(env);
+  if (configs.length === 0) {
+    return getDefaultTenant(env);
   }
 
-  if (pathname === "/1/events") {
+  const hostname = new URL(request.url).hostname;
+  const origin = request.headers.get("Origin");
+  const config =
+    configs.find((tenant) => tenant.hosts?.some((host) => matchesGlob(host, hostname))) ??
+    (origin
+      ? configs.find((tenant) => tenant.origins?.some((o) => matchesGlob(o, origin)))
+      : undefined);
+  return config && toTenant(config, env);
+}
+
+/** Every tenant requests can resolve to: the TENANTS entries, or the default tenant. */
+function getTenants(env: Env): Tenant[] {
+  const configs = getTenantConfigs(env);
+  return configs.length === 0
+    ? [getDefaultTenant(env)]
+    : configs.map((config) => toTenant(config, env));
+}
+
+function getTenantById(env: Env, id: string): Tenant | undefined {
+  const configs = getTenantConfigs(env);
+  if (configs.length === 0) {
+    return id === DEFAULT_TENANT_ID ? getDefaultTenant(env) : undefined;
+  }
+  const config = configs.find((tenant) => tenant.id === id);
+  return config && toTenant(config, env);
+}
+
+function getDefaultTenant(env: Env): Tenant {
+  return {
+    id: DEFAULT_TENANT_ID,
+    appId: env.ALGOLIA_APPLICATION_ID || "",
+    apiKey: env.ALGOLIA_API_KEY || "",
+  };
+}
+
+function toTenant(config: TenantConfig, env: Env): Tenant {
+  const secret = TENANT_API_KEY_SECRETS.find((name) => name === config.apiKeySecret);
+  return {
+    id: config.id,
+    appId: config.appId,
+    apiKey: (secret && env[secret]) || "",
+    allowedIndices: config.allowedIndices,
+    ttlPolicy: config.ttlPolicy,
+    keyPolicy: config.keyPolicy,
+    cors: config.cors,
+  };
+}
+
+/**
+ * Logs a rejected request like a failed Algolia request and answers with the
+ * request id, `X-Cache: BYPASS` and CORS headers.
+ */
+function rejectRequest(
+  request: Request,
+  ctx: RequestContext,
+  env: Env,
+  executionCtx: ExecutionContext,
+  status: number,
+  errorDetail: ErrorDetail,
+  headers: Record<string, string> = {}
+): Response {
+  executionCtx.waitUntil(
+    logEvent("error", `[FAILED] ${errorDetail.error} Algolia request to: ${ctx.pathname}`, {
+      request_id: ctx.requestId,
+      origin: ctx.origin,
+      url: request.url,
+      method: request.method,
+      error: errorDetail.error,
+      error_type: errorDetail.errorType,
+      error_details: errorDetail.details,
+      is_ssr_request: ctx.isSSRRequest,
+      user_agent: request.headers.get("User-Agent") || "unknown",
+    })
+  );
+  const response = new Response(JSON.stringify(errorDetail), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+  executionCtx.waitUntil(
+    recordMetrics(env, ctx, response, {
+      indexNames: getIndexNames(ctx.pathname),
+      cacheStatus: "BYPASS",
+    })
+  );
+  const tagged = addDebugHeaders(response, ctx, {
+    cacheStatus: "BYPASS",
+    timings: {},
+    verbose: isDebugAllowed(request, ctx, env),
+  });
+  return addCorsHeaders(tagged, ctx, env);
+}
+
+function jsonError(status: number, errorDetail: ErrorDetail): Response {
+  return new Response(JSON.stringify(errorDetail), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function fetchFromAlgolia(
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  bodyStr?: string,
+  env?: Env,
+  isSSRRequest?: boolean
+): Promise<Response> {
+  const { pathname } = ctx;
+  const userAgent = originalHeaders.get("User-Agent") || "unknown";
+  // Create a copy of searchParams to avoid mutating the original URL
+  const algoliaParams = new URLSearchParams(ctx.searchParams.toString());
+  const parentApiKey = ctx.tenant.apiKey;
+  const keyRestrictions =
+    env && pathname !== INSIGHTS_PATH
+      ? resolveKeyRestrictions(env, ctx)
+      : undefined;
+  algoliaParams.set(
+    "x-algolia-api-key",
+    keyRestrictions
+      ? await generateSecuredApiKey(parentApiKey, keyRestrictions.restrictions)
+      : parentApiKey
+  );
+  algoliaParams.set("x-algolia-application-id", ctx.tenant.appId);
+
+  const headers = buildUpstreamHeaders(originalHeaders, env);
+
+  if (pathname === INSIGHTS_PATH) {
     // Unfortunately insights agent uses uppercase query params, so remove duplicates, as we set ours above.
     // Support case will be filled. Added unit test to test current behavior.
     algoliaParams.set("X-Algolia-Agent", INSIGHTS_AGENT);
     algoliaParams.delete("X-Algolia-Application-Id");
     algoliaParams.delete("X-Algolia-API-Key");
 
-    const insightsUrl = `https://insights.algolia.io/1/events?${algoliaParams.toString()}`;
-    try {
-      return await fetch(insightsUrl, {
-        method: ctx.method,
-        headers,
-        body: bodyStr,
-      });
-    } catch {
-      return new Response("Failed to reach Algolia Insights endpoint", {
-        status: 502,
-      });
+    const insightsUrl = `https://insights.algolia.io/1/events?${algoliaParams.toString()}`;
+    try {
+      return await fetch(insightsUrl, {
+        method: ctx.method,
+        headers,
+        body: bodyStr,
+        signal: AbortSignal.timeout(getUpstreamTimeouts(env).attemptMs),
+      });
+    } catch {
+      return new Response("Failed to reach Algolia Insights endpoint", {
+        status: 502,
+      });
+    }
+  } else {
+    algoliaParams.set("x-algolia-agent", SEARCH_AGENT);
+  }
+
+  const search = `?${algoliaParams.toString()}`;
+
+  const hosts = getHosts(ctx.tenant.appId);
+  const response = await tryAlgoliaHosts(
+    pathname,
+    search,
+    ctx.method,
+    headers,
+    bodyStr,
+    hosts,
+    isSSRRequest,
+    userAgent,
+    getUpstreamTimeouts(env)
+  );
+  return slimResponse(response, ctx, env);
+}
+
+/**
+ * Removes configured hit fields and, for client callers, attributes outside the
+ * allowed set. Runs on every upstream response before it is cached or shared,
+ * and keeps the `results[].hits` / `hits` shape InstantSearch expects. Objects
+ * from `/1/indexes/{index}/{objectID}` are trimmed like a single hit.
+ */
+async function slimResponse(
+  response: Response,
+  ctx: RequestContext,
+  env?: Env
+): Promise<Response> {
+  const rules = readJsonConfig<SlimmingRule[]>(
+    "RESPONSE_SLIMMING",
+    env?.RESPONSE_SLIMMING,
+    []
+  );
+  if (rules.length === 0 || !response.ok) {
+    return response;
+  }
+
+  let json: { results?: unknown[]; hits?: unknown[] };
+  try {
+    json = (await response.clone().json()) as { results?: unknown[]; hits?: unknown[] };
+  } catch {
+    return response;
+  }
+
+  const [pathIndex] = getIndexNames(ctx.pathname);
+  let slimmed: unknown;
+  if (matchProxyRoute(ctx.method, ctx.pathname)?.name === "object") {
+    const slimming = resolveSlimming(rules, pathIndex, ctx.isSSRRequest);
+    if (!slimming) {
+      return response;
+    }
+    slimmed = slimHit(json, slimming.strip, slimming.allowed);
+  } else if (Array.isArray(json.results)) {
+    slimmed = {
+      ...json,
+      results: json.results.map((result) =>
+        slimResult(result, rules, pathIndex, ctx.isSSRRequest)
+      ),
+    };
+  } else if (Array.isArray(json.hits)) {
+    slimmed = slimResult(json, rules, pathIndex, ctx.isSSRRequest);
+  } else {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  return new Response(JSON.stringify(slimmed), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+function slimResult(
+  result: unknown,
+  rules: SlimmingRule[],
+  pathIndex: string | undefined,
+  isSSRRequest: boolean
+): unknown {
+  if (result === null || typeof result !== "object") {
+    return result;
+  }
+  const { hits, index } = result as { hits?: unknown; index?: unknown };
+  const slimming = resolveSlimming(
+    rules,
+    typeof index === "string" ? index : pathIndex,
+    isSSRRequest
+  );
+  if (!slimming || !Array.isArray(hits)) {
+    return result;
+  }
+  return {
+    ...result,
+    hits: hits.map((hit) => slimHit(hit, slimming.strip, slimming.allowed)),
+  };
+}
+
+function resolveSlimming(
+  rules: SlimmingRule[],
+  indexName: string | undefined,
+  isSSRRequest: boolean
+): { strip: Set<string>; allowed?: Set<string> } | undefined {
+  const rule = rules.find(
+    (r) => !r.index || (indexName !== undefined && matchesGlob(r.index, indexName))
+  );
+  if (!rule) {
+    return undefined;
+  }
+  return {
+    strip: new Set(rule.strip ?? []),
+    allowed:
+      !isSSRRequest && rule.clientAttributes
+        ? new Set(["objectID", ...rule.clientAttributes])
+        : undefined,
+  };
+}
+
+function slimHit(hit: unknown, strip: Set<string>, allowed?: Set<string>): unknown {
+  if (hit === null || typeof hit !== "object") {
+    return hit;
+  }
+  const slimmed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(hit)) {
+    if (strip.has(key) || (allowed && !HIT_METADATA_FIELDS.includes(key) && !allowed.has(key))) {
+      continue;
+    }
+    slimmed[key] =
+      allowed && PER_ATTRIBUTE_HIT_FIELDS.includes(key) && value !== null && typeof value === "object"
+        ? Object.fromEntries(Object.entries(value).filter(([attribute]) => allowed.has(attribute)))
+        : value;
+  }
+  return slimmed;
+}
+
+function getUpstreamTimeouts(env?: Env): UpstreamTimeouts {
+  const defaults = DEFAULT_UPSTREAM_TIMEOUTS;
+  return {
+    connectMs: parseInteger(env?.ALGOLIA_CONNECT_TIMEOUT_MS, defaults.connectMs),
+    attemptMs: parseInteger(env?.ALGOLIA_ATTEMPT_TIMEOUT_MS, defaults.attemptMs),
+    budgetMs: parseInteger(env?.ALGOLIA_REQUEST_BUDGET_MS, defaults.budgetMs),
+    hedgeAfterMs: parseInteger(env?.ALGOLIA_HEDGE_AFTER_MS, defaults.hedgeAfterMs),
+  };
+}
+
+/**
+ * Headers for the upstream request: the FORWARDED_HEADERS of the incoming request,
+ * plus X-Forwarded-For from CF-Connecting-IP when FORWARD_CLIENT_IP is "true" so
+ * Algolia analytics and geo features see the end user instead of the worker.
+ */
+function buildUpstreamHeaders(
+  originalHeaders: Headers,
+  env?: Env
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of originalHeaders.entries()) {
+    if (FORWARDED_HEADERS.has(key)) {
+      headers[key] = value;
+    }
+  }
+
+  const clientIp = originalHeaders.get("CF-Connecting-IP");
+  if (env?.FORWARD_CLIENT_IP === "true" && clientIp) {
+    headers["x-forwarded-for"] = clientIp;
+  }
+  return headers;
+}
+
+/**
+ * The key policy of a tenant: its own `keyPolicy`, else ALGOLIA_KEY_POLICY.
+ * Undefined when neither is configured (or ALGOLIA_KEY_POLICY is invalid) and
+ * when the policy restricts neither SSR nor client callers; proxied requests
+ * are then rejected rather than sent with the parent key.
+ */
+function getKeyPolicy(env: Env, tenant: Tenant): KeyPolicy | undefined {
+  const policy =
+    tenant.keyPolicy ??
+    readJsonConfig<KeyPolicy | undefined>(
+      "ALGOLIA_KEY_POLICY",
+      env.ALGOLIA_KEY_POLICY,
+      undefined
+    );
+  return policy && isKeyPolicy(policy) ? policy : undefined;
+}
+
+function isKeyPolicy(value: unknown): boolean {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const { ssr, client } = value as KeyPolicy;
+  return [ssr, client].some(
+    (restrictions) => restrictions !== null && typeof restrictions === "object"
+  );
+}
+
+/**
+ * Picks the secured key restrictions for a request: SSR callers use `ssr`,
+ * client callers their origin's entry or `client`. `scope` names the choice so
+ * cache entries can be partitioned by it. Undefined when the policy leaves the
+ * caller class unrestricted.
+ */
+function resolveKeyRestrictions(
+  env: Env,
+  ctx: RequestContext
+): { scope: string; restrictions: KeyRestrictions } | undefined {
+  const policy = getKeyPolicy(env, ctx.tenant) ?? {};
+
+  if (ctx.isSSRRequest) {
+    return policy.ssr ? { scope: "ssr", restrictions: policy.ssr } : undefined;
+  }
+  const originRestrictions = policy.origins?.[ctx.origin];
+  if (originRestrictions) {
+    return { scope: `origin:${ctx.origin}`, restrictions: originRestrictions };
+  }
+  return policy.client
+    ? { scope: "client", restrictions: policy.client }
+    : undefined;
+}
+
+/**
+ * Derives an Algolia secured API key from the parent key, matching the
+ * clients' `generateSecuredApiKey`: base64(hexHmacSha256(parent, query) + query).
+ */
+async function generateSecuredApiKey(
+  parentApiKey: string,
+  restrictions: KeyRestrictions
+): Promise<string> {
+  const params: [string, string][] = [];
+  if (restrictions.restrictIndices?.length) {
+    params.push(["restrictIndices", restrictions.restrictIndices.join(",")]);
+  }
+  if (restrictions.filters) {
+    params.push(["filters", restrictions.filters]);
+  }
+  if (restrictions.restrictSources) {
+    params.push(["restrictSources", restrictions.restrictSources]);
+  }
+  if (restrictions.validity) {
+    const validUntil = Math.floor(Date.now() / 1000) + restrictions.validity;
+    params.push(["validUntil", String(validUntil)]);
+  }
+
+  const queryParameters = params
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  const hmac = await hmacSha256Hex(parentApiKey, queryParameters);
+  return btoa(hmac + queryParameters);
+}
+
+function isCacheablePath(pathname: string): boolean {
+  return pathname !== INSIGHTS_PATH;
+}
+
+function buildCacheKeyUrl(
+  pathname: string,
+  cacheKey: string,
+  isSSRRequest: boolean,
+  keyScope?: string,
+  tenantId?: string
+): string {
+  const cacheUrl = new URL(pathname, CACHE_KEY_ORIGIN);
+  cacheUrl.searchParams.set("cacheKey", cacheKey);
+
+  // Add SSR indicator to cache key to separate SSR and client-side cache entries
+  cacheUrl.searchParams.set("ssr", isSSRRequest ? "1" : "0");
+
+  // Origin-specific secured keys can return different results, so keep their entries apart
+  if (keyScope?.startsWith("origin:")) {
+    cacheUrl.searchParams.set("scope", keyScope);
+  }
+
+  // Tenants may share index names across Algolia apps and hostnames across origins
+  if (tenantId && tenantId !== DEFAULT_TENANT_ID) {
+    cacheUrl.searchParams.set("tenant", tenantId);
+  }
+  return cacheUrl.toString();
+}
+
+function parseInteger(value: string | undefined, fallback: number): number {
+  return parseInt(value || String(fallback), 10) || fallback;
+}
+
+function getCachePolicy(
+  env: Env,
+  isSSRRequest: boolean,
+  pathname: string,
+  indexNames: string[],
+  tenant?: Tenant
+): CachePolicy {
+  const defaultTtl = isSSRRequest
+    ? parseInteger(env.CACHE_TTL_SSR, 600)
+    : parseInteger(env.CACHE_TTL_CLIENT, 0);
+
+  return {
+    ttl: resolveTtl(
+      tenant?.ttlPolicy ?? getTtlRules(env),
+      pathname,
+      indexNames,
+      isSSRRequest,
+      defaultTtl
+    ),
+    staleWhileRevalidate: parseInteger(env.CACHE_STALE_WHILE_REVALIDATE, 0),
+    staleIfError: parseInteger(env.CACHE_STALE_IF_ERROR, 0),
+  };
+}
+
+/**
+ * Picks the TTL of the first rule matching the path and each index (falling back
+ * to the global TTL); when several indices are queried the shortest TTL wins.
+ */
+function resolveTtl(
+  rules: TtlRule[],
+  pathname: string,
+  indexNames: string[],
+  isSSRRequest: boolean,
+  defaultTtl: number
+): number {
+  const targets = indexNames.length > 0 ? indexNames : [undefined];
+  const ttls = targets.map((indexName) => {
+    const rule = rules.find(
+      (r) =>
+        (isSSRRequest ? r.ssr : r.client) !== undefined &&
+        (!r.path || matchesGlob(r.path, pathname)) &&
+        (!r.index || (indexName !== undefined && matchesGlob(r.index, indexName)))
+    );
+    const ttl = rule ? (isSSRRequest ? rule.ssr : rule.client) : defaultTtl;
+    return Math.max(0, ttl ?? defaultTtl);
+  });
+  return Math.min(...ttls);
+}
+
+function getTtlRules(env: Env): TtlRule[] {
+  return readJsonConfig<TtlRule[]>(
+    "CACHE_TTL_POLICY",
+    env.CACHE_TTL_POLICY,
+    []
+  );
+}
+
+/**
+ * Parses a JSON configuration variable once per isolate. Invalid values are
+ * logged and replaced by the fallback rather than failing every request.
+ */
+function readJsonConfig<T>(name: JsonConfigName, source: string | undefined, fallback: T): T {
+  const raw = source || "";
+  const cached = jsonConfigCache.get(name);
+  if (cached?.source === raw) {
+    return cached.value as T;
+  }
+
+  let value = fallback;
+  if (raw) {
+    try {
+      value = parseJsonConfig(name, raw) as T;
+    } catch (e) {
+      void logEvent("error", `[CONFIG] Invalid ${name}, using defaults`, {
+        error: String(e),
+      });
+    }
+  }
+
+  jsonConfigCache.set(name, { source: raw, value });
+  return value;
+}
+
+/** Parses a JSON configuration variable, throwing when it has the wrong shape. */
+function parseJsonConfig(name: JsonConfigName, raw: string): unknown {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!JSON_CONFIG_CHECKS[name](parsed)) {
+    throw new Error("Unexpected shape");
+  }
+  return parsed;
+}
+
+function isJsonObject(value: unknown): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function matchesGlob(pattern: string, value: string): boolean {
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$"
+  );
+  return regex.test(value);
+}
+
+/**
+ * Wraps an upstream response for `cache.put`. The entry is retained for the
+ * longest stale window, while clients only see the soft TTL in `max-age`.
+ * It is tagged with its index names and their generations at store time.
+ */
+function toCacheableResponse(
+  response: Response,
+  policy: CachePolicy,
+  generations: IndexGenerations
+): Response {
+  const headers = new Headers(response.headers);
+  const retention =
+    policy.ttl + Math.max(policy.staleWhileRevalidate, policy.staleIfError);
+
+  headers.set(
+    "Cache-Control",
+    `public, max-age=${policy.ttl}, s-maxage=${retention}`
+  );
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  headers.delete(UPSTREAM_HOST_HEADER);
+  headers.delete(UPSTREAM_ATTEMPTS_HEADER);
+
+  const indexNames = Object.keys(generations);
+  if (indexNames.length > 0) {
+    headers.set("Cache-Tag", indexNames.join(","));
+  }
+  headers.set(GENERATIONS_HEADER, serializeGenerations(generations));
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Within the soft TTL an entry is fresh. Up to the stale-while-revalidate window
+ * it is served immediately and refreshed in the background, and up to the
+ * stale-if-error window it is kept as a fallback for upstream failures. Entries
+ * from before a reindex are never served, but may still act as a fallback.
+ */
+function classifyCachedEntry(
+  cached: Response,
+  policy: CachePolicy,
+  generations: IndexGenerations
+): CacheFreshness {
+  const age = getCacheAge(cached);
+  if (hasCurrentGenerations(cached, generations)) {
+    if (age <= policy.ttl) {
+      return "fresh";
+    }
+    if (age <= policy.ttl + policy.staleWhileRevalidate) {
+      return "stale";
+    }
+  }
+  return age <= policy.ttl + policy.staleIfError ? "fallback" : "expired";
+}
+
+/** Age of a cached entry in seconds; entries without a timestamp count as fresh. */
+function getCacheAge(response: Response): number {
+  const cachedAt = parseInt(response.headers.get(CACHED_AT_HEADER) || "", 10);
+  if (!cachedAt) {
+    return 0;
+  }
+  return Math.max(0, (Date.now() - cachedAt) / 1000);
+}
+
+function serializeGenerations(generations: IndexGenerations): string {
+  return new URLSearchParams(
+    Object.entries(generations).map(([indexName, generation]) => [
+      indexName,
+      String(generation),
+    ])
+  ).toString();
+}
+
+/** Entries stored before generations existed count as generation 0 for every index. */
+function hasCurrentGenerations(
+  response: Response,
+  generations: IndexGenerations
+): boolean {
+  const stored = new URLSearchParams(
+    response.headers.get(GENERATIONS_HEADER) || ""
+  );
+  return Object.entries(generations).every(
+    ([indexName, generation]) =>
+      (parseInt(stored.get(indexName) || "0", 10) || 0) === generation
+  );
+}
+
+/**
+ * Tenants may use the same index names in different Algolia apps, so every
+ * per-index record (generations, registered cache keys) is keyed by both.
+ */
+function tenantIndexKey(tenantId: string, indexName: string): string {
+  return `${tenantId}:${indexName}`;
+}
+
+function getGenerationStore(env: Env, tenantId: string): GenerationStore {
+  const kv = env.CACHE_GENERATIONS;
+  const key = (indexName: string) => `generation:${tenantIndexKey(tenantId, indexName)}`;
+  if (!kv) {
+    return {
+      async get(indexNames) {
+        return Object.fromEntries(
+          indexNames.map((indexName) => [
+            indexName,
+            localGenerations.get(key(indexName)) || 0,
+          ])
+        );
+      },
+      async bump(indexName) {
+        const generation = (localGenerations.get(key(indexName)) || 0) + 1;
+        localGenerations.set(key(indexName), generation);
+        return generation;
+      },
+    };
+  }
+
+  return {
+    async get(indexNames) {
+      const values = await Promise.all(
+        indexNames.map((indexName) =>
+          kv.get(key(indexName), {
+            cacheTtl: GENERATION_KV_CACHE_TTL,
+          })
+        )
+      );
+      return Object.fromEntries(
+        indexNames.map((indexName, i) => [
+          indexName,
+          parseInt(values[i] || "0", 10) || 0,
+        ])
+      );
+    },
+    async bump(indexName) {
+      // Read-modify-write is not atomic, which is fine for infrequent reindex webhooks
+      const current = parseInt(
+        (await kv.get(key(indexName))) || "0",
+        10
+      ) || 0;
+      const generation = current + 1;
+      await kv.put(key(indexName), String(generation));
+      return generation;
+    },
+  };
+}
+
+function markStale(response: Response): Response {
+  const headers = new Headers(response.headers);
+  headers.set("X-Cache", "STALE");
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+async function revalidateCache(
+  cacheKeyUrl: string,
+  policy: CachePolicy,
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  bodyStr: string | undefined,
+  generations: IndexGenerations,
+  env: Env
+): Promise<void> {
+  const upstream = await fetchFromAlgoliaCoalesced(
+    cacheKeyUrl,
+    ctx,
+    originalHeaders,
+    bodyStr,
+    env
+  );
+  const response = fromSnapshot(upstream.snapshot);
+
+  if (upstream.shared) {
+    // Another request fetched the same key and stores the result
+    return;
+  }
+
+  if (!response.ok) {
+    await logEvent("warn", `[STALE] Background revalidation failed, request: ${ctx.pathname}`, {
+      origin: ctx.origin,
+      url: ctx.url.toString(),
+      method: ctx.method,
+      status: response.status,
+      is_ssr_request: ctx.isSSRRequest,
+    });
+    return;
+  }
+
+  await storeInCache(cacheKeyUrl, response, policy, generations, env, ctx.tenant.id);
+}
+
+async function storeInCache(
+  cacheKeyUrl: string,
+  response: Response,
+  policy: CachePolicy,
+  generations: IndexGenerations,
+  env: Env,
+  tenantId: string
+): Promise<void> {
+  const cacheable = toCacheableResponse(response, policy, generations);
+  const retention =
+    policy.ttl + Math.max(policy.staleWhileRevalidate, policy.staleIfError);
+
+  await Promise.all([
+    caches.default.put(cacheKeyUrl, cacheable),
+    registerCacheKey(cacheKeyUrl, Object.keys(generations), retention, env, tenantId),
+  ]);
+}
+
+/**
+ * Records a stored key under each index so it can be purged per index later.
+ * The key's hash picks the registry shard, see CACHE_REGISTRY_SHARDS.
+ */
+async function registerCacheKey(
+  cacheKeyUrl: string,
+  indexNames: string[],
+  retention: number,
+  env: Env,
+  tenantId: string
+): Promise<void> {
+  const registry = env.CACHE_REGISTRY;
+  if (!registry) {
+    return;
+  }
+
+  const expiresAt = Date.now() + retention * 1000;
+  try {
+    const shard = parseInt((await sha256Hex(cacheKeyUrl)).slice(0, 8), 16) % CACHE_REGISTRY_SHARDS;
+    await Promise.all(
+      indexNames.map((indexName) =>
+        registry
+          .get(registry.idFromName(`${tenantIndexKey(tenantId, indexName)}:${shard}`))
+          .register(cacheKeyUrl, expiresAt)
+      )
+    );
+  } catch (e) {
+    await logEvent("warn", `[REGISTRY] Failed to register cache key: ${cacheKeyUrl}`, {
+      indexes: indexNames,
+      error: String(e),
+    });
+  }
+}
+
+/**
+ * Plans per-sub-request caching for a multi-query. Returns undefined when the
+ * batch cannot be split (a client key override, a dependent `strategy`, a single
+ * request) or none of its sub-requests is cacheable. A sub-request's key equals
+ * the key of a batch containing only that request.
+ */
+async function planSubRequests(
+  ctx: RequestContext,
+  body: IncomingBody,
+  env: Env
+): Promise<SubRequestPlan | undefined> {
+  const requests = body.requests;
+  if (
+    env.CACHE_SPLIT_QUERIES === "false" ||
+    ctx.pathname !== MULTI_QUERY_PATH ||
+    !Array.isArray(requests) ||
+    requests.length < 2 ||
+    (body.strategy !== undefined && body.strategy !== "none")
+  ) {
+    return undefined;
+  }
+
+  const keyScope = resolveKeyRestrictions(env, ctx)?.scope;
+  const entries = await Promise.all(
+    requests.map(async (request): Promise<SubRequestEntry> => {
+      const subBody: IncomingBody = { ...body, requests: [request] };
+      const indexNames = getIndexNames(ctx.pathname, subBody);
+      const cacheKey = await deriveCacheKey(subBody, ctx.pathname, ctx.isSSRRequest);
+      return {
+        request,
+        indexNames,
+        cacheKeyUrl: buildCacheKeyUrl(
+          ctx.pathname,
+          cacheKey,
+          ctx.isSSRRequest,
+          keyScope,
+          ctx.tenant.id
+        ),
+        policy: getCachePolicy(
+          env,
+          ctx.isSSRRequest,
+          ctx.pathname,
+          indexNames,
+          ctx.tenant
+        ),
+      };
+    })
+  );
+
+  return entries.some((entry) => entry.policy.ttl > 0)
+    ? { body, entries }
+    : undefined;
+}
+
+/**
+ * Looks up each sub-request in cache, sends only the misses to Algolia as a
+ * smaller multi-query and reassembles `results` in the original order.
+ */
+async function fetchSubRequests(
+  plan: SubRequestPlan,
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  env: Env,
+  executionCtx: ExecutionContext,
+  timings: ServerTimings
+): Promise<{ response: Response; cacheStatus: CacheStatus }> {
+  const store = getGenerationStore(env, ctx.tenant.id);
+  const cacheStart = Date.now();
+  await Promise.all(
+    plan.entries.map(async (entry) => {
+      if (entry.policy.ttl <= 0) {
+        return;
+      }
+      const [cached, generations] = await Promise.all([
+        caches.default.match(entry.cacheKeyUrl),
+        store.get(entry.indexNames),
+      ]);
+      entry.generations = generations;
+      if (!cached) {
+        return;
+      }
+
+      const freshness = classifyCachedEntry(cached, entry.policy, generations);
+      const result = freshness === "expired" ? undefined : await readSingleResult(cached);
+      if (result === undefined) {
+        return;
+      }
+      if (freshness === "fallback") {
+        entry.fallback = result;
+      } else {
+        entry.result = result;
+        entry.stale = freshness === "stale";
+      }
+    })
+  );
+
+  timings.cache = Date.now() - cacheStart;
+
+  const staleEntries = plan.entries.filter((entry) => entry.stale);
+  if (staleEntries.length > 0) {
+    executionCtx.waitUntil(
+      revalidateSubRequests(staleEntries, plan.body, ctx, originalHeaders, env)
+    );
+  }
+
+  let cacheStatus: CacheStatus = staleEntries.length > 0 ? "STALE" : "HIT";
+  let upstream: UpstreamInfo | undefined;
+  const misses = plan.entries.filter((entry) => entry.result === undefined);
+  if (misses.length > 0) {
+    const upstreamStart = Date.now();
+    const batch = await fetchSubRequestBatch(misses, plan.body, ctx, originalHeaders, env);
+    timings.upstream = Date.now() - upstreamStart;
+    upstream = readUpstreamInfo(batch.response);
+    if (batch.results) {
+      cacheStatus = "MISS";
+      misses.forEach((entry, i) => {
+        entry.result = batch.results?.[i];
+        if (!batch.shared && entry.generations) {
+          executionCtx.waitUntil(
+            storeInCache(
+              entry.cacheKeyUrl,
+              toSingleResultResponse(entry.result),
+              entry.policy,
+              entry.generations,
+              env,
+              ctx.tenant.id
+            )
+          );
+        }
+      });
+    } else if (misses.every((entry) => entry.fallback !== undefined)) {
+      executionCtx.waitUntil(
+        logEvent("warn", `[STALE] Serving stale results after upstream failure, request: ${ctx.pathname}`, {
+          origin: ctx.origin,
+          url: ctx.url.toString(),
+          method: ctx.method,
+          status: batch.response.status,
+          stale_queries: misses.length,
+          is_ssr_request: ctx.isSSRRequest,
+        })
+      );
+      for (const entry of misses) {
+        entry.result = entry.fallback;
+      }
+      cacheStatus = "STALE";
+    } else {
+      return { response: batch.response, cacheStatus: "MISS" };
+    }
+  }
+
+  const response = new Response(
+    JSON.stringify({ results: plan.entries.map((entry) => entry.result) }),
+    { status: 200, headers: { "Content-Type": "application/json; charset=UTF-8" } }
+  );
+  if (upstream) {
+    setUpstreamInfo(response.headers, upstream);
+  }
+  return {
+    response: cacheStatus === "STALE" ? markStale(response) : response,
+    cacheStatus,
+  };
+}
+
+async function fetchSubRequestBatch(
+  entries: SubRequestEntry[],
+  body: IncomingBody,
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  env: Env
+): Promise<SubRequestBatch> {
+  const batchBody = JSON.stringify({
+    ...body,
+    requests: entries.map((entry) => entry.request),
+  });
+  const upstream = await fetchFromAlgoliaCoalesced(
+    `batch:${entries.map((entry) => entry.cacheKeyUrl).join("|")}`,
+    ctx,
+    originalHeaders,
+    batchBody,
+    env
+  );
+  const response = fromSnapshot(upstream.snapshot);
+
+  if (response.ok) {
+    try {
+      const json = (await response.clone().json()) as { results?: unknown[] };
+      if (Array.isArray(json.results) && json.results.length === entries.length) {
+        return { response, results: json.results, shared: upstream.shared };
+      }
+    } catch {
+      // Not a multi-query response, pass it through unchanged
+    }
+  }
+  return { response, shared: upstream.shared };
+}
+
+async function revalidateSubRequests(
+  entries: SubRequestEntry[],
+  body: IncomingBody,
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  env: Env
+): Promise<void> {
+  const batch = await fetchSubRequestBatch(entries, body, ctx, originalHeaders, env);
+  if (batch.shared) {
+    // Another request fetched the same queries and stores the results
+    return;
+  }
+
+  if (!batch.results) {
+    await logEvent("warn", `[STALE] Background revalidation failed, request: ${ctx.pathname}`, {
+      origin: ctx.origin,
+      url: ctx.url.toString(),
+      method: ctx.method,
+      status: batch.response.status,
+      is_ssr_request: ctx.isSSRRequest,
+    });
+    return;
+  }
+
+  await Promise.all(
+    entries.map((entry, i) =>
+      entry.generations
+        ? storeInCache(
+            entry.cacheKeyUrl,
+            toSingleResultResponse(batch.results?.[i]),
+            entry.policy,
+            entry.generations,
+            env,
+            ctx.tenant.id
+          )
+        : undefined
+    )
+  );
+}
+
+async function readSingleResult(cached: Response): Promise<unknown> {
+  try {
+    const json = (await cached.json()) as { results?: unknown[] };
+    return Array.isArray(json.results) && json.results.length === 1
+      ? json.results[0]
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toSingleResultResponse(result: unknown): Response {
+  return new Response(JSON.stringify({ results: [result] }), {
+    status: 200,
+    headers: { "Content-Type": "application/json; charset=UTF-8" },
+  });
+}
+
+function getCoalesceMode(env: Env): CoalesceMode {
+  switch (env.CACHE_COALESCE_MODE) {
+    case "off":
+    case "durable_object":
+      return env.CACHE_COALESCE_MODE;
+    default:
+      return "isolate";
+  }
+}
+
+/**
+ * Fetches from Algolia so that concurrent misses for the same cache key share
+ * one upstream call, either per isolate or per colo via the CacheLock object.
+ */
+async function fetchFromAlgoliaCoalesced(
+  cacheKeyUrl: string,
+  ctx: RequestContext,
+  originalHeaders: Headers,
+  bodyStr: string | undefined,
+  env: Env
+): Promise<CoalescedUpstream> {
+  const mode = getCoalesceMode(env);
+
+  if (mode === "durable_object" && env.CACHE_LOCK) {
+    try {
+      const stub = env.CACHE_LOCK.get(
+        env.CACHE_LOCK.idFromName(`${ctx.colo ?? "unknown"}:${cacheKeyUrl}`)
+      );
+      const upstream = await stub.fetchUpstream(cacheKeyUrl, {
+        requestId: ctx.requestId,
+        tenantId: ctx.tenant.id,
+        url: ctx.url.toString(),
+        origin: ctx.origin,
+        isSSRRequest: ctx.isSSRRequest,
+        method: ctx.method,
+        headers: [...originalHeaders.entries()],
+        body: bodyStr,
+      });
+      // The lock only shares the upstream call and does not know which caller
+      // stores the result, so every caller writes it to the colo cache
+      return { snapshot: upstream.snapshot, shared: false };
+    } catch (e) {
+      await logEvent("warn", `[COALESCE] Cache lock unavailable, falling back to isolate coalescing, request: ${ctx.pathname}`, {
+        origin: ctx.origin,
+        url: ctx.url.toString(),
+        method: ctx.method,
+        error: String(e),
+        is_ssr_request: ctx.isSSRRequest,
+      });
+    }
+  }
+
+  const fetcher = () =>
+    fetchFromAlgolia(ctx, originalHeaders, bodyStr, env, ctx.isSSRRequest);
+
+  if (mode === "off") {
+    return { snapshot: await toSnapshot(await fetcher()), shared: false };
+  }
+  return coalesceUpstream(cacheKeyUrl, fetcher);
+}
+
+async function coalesceUpstream(
+  key: string,
+  fetcher: () => Promise<Response>
+): Promise<CoalescedUpstream> {
+  const pending = inflightUpstream.get(key);
+  if (pending) {
+    return { snapshot: await pending, shared: true };
+  }
+
+  const upstream = fetcher()
+    .then(toSnapshot)
+    .finally(() => inflightUpstream.delete(key));
+  inflightUpstream.set(key, upstream);
+
+  return { snapshot: await upstream, shared: false };
+}
+
+async function toSnapshot(response: Response): Promise<UpstreamSnapshot> {
+  return {
+    body: await response.arrayBuffer(),
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+  };
+}
+
+function fromSnapshot(snapshot: UpstreamSnapshot): Response {
+  return new Response(snapshot.body.slice(0), {
+    status: snapshot.status,
+    statusText: snapshot.statusText,
+    headers: snapshot.headers,
+  });
+}
+
+/**
+ * Builds a canonical representation of a search body: object keys are sorted
+ * recursively and URL-encoded `params` strings are decoded into sorted maps,
+ * so semantically identical bodies serialize identically.
+ */
+function canonicalizeBody(body: IncomingBody): unknown {
+  const canonical: Record<string, unknown> = { ...body };
+  if (Array.isArray(body.requests)) {
+    canonical.requests = body.requests.map((req) =>
+      typeof req.params === "string"
+        ? { ...req, params: decodeParamsString(req.params) }
+        : req
+    );
+  }
+  return sortKeysDeep(canonical);
+}
+
+function decodeParamsString(params: string): Record<string, string> {
+  const decoded: Record<string, string> = {};
+  for (const [key, value] of new URLSearchParams(params).entries()) {
+    decoded[key] = value;
+  }
+  return decoded;
+}
+
+function sortKeysDeep(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeysDeep);
+  }
+  if (value !== null && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeysDeep((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Normalizes the queries and filters of a search body so equivalent searches
+ * share one upstream request and cache entry. Other routes pass through as is.
+ */
+function normalizeBody(
+  body: IncomingBody,
+  route: ProxyRoute,
+  pathname: string,
+  env: Env
+): IncomingBody {
+  if (!NORMALIZED_ROUTES.includes(route.name)) {
+    return body;
+  }
+
+  const rules = getNormalizationRules(env);
+  if (Array.isArray(body.requests)) {
+    return {
+      ...body,
+      requests: body.requests.map((req) =>
+        req !== null && typeof req === "object"
+          ? normalizeSearchParams(req, resolveNormalization(rules, req.indexName))
+          : req
+      ),
+    };
+  }
+  return normalizeSearchParams(
+    body,
+    resolveNormalization(rules, getIndexNames(pathname)[0])
+  );
+}
+
+/** Normalizes the query string of GET searches (`/1/indexes/{index}?query=...`) in place. */
+function normalizeSearchUrl(url: URL, route: ProxyRoute, env: Env): void {
+  if (!NORMALIZED_ROUTES.includes(route.name)) {
+    return;
+  }
+  const options = resolveNormalization(
+    getNormalizationRules(env),
+    getIndexNames(url.pathname)[0]
+  );
+  const search = url.search.slice(1);
+  const normalized = normalizeParamsString(search, options);
+  if (normalized !== search) {
+    url.search = normalized;
+  }
+}
+
+function getNormalizationRules(env: Env): NormalizationRule[] {
+  return readJsonConfig<NormalizationRule[]>(
+    "QUERY_NORMALIZATION",
+    env.QUERY_NORMALIZATION,
+    []
+  );
+}
+
+function resolveNormalization(
+  rules: NormalizationRule[],
+  indexName: unknown
+): QueryNormalization {
+  const rule = rules.find(
+    (r) => !r.index || (typeof indexName === "string" && matchesGlob(r.index, indexName))
+  );
+  return {
+    whitespace: rule?.whitespace ?? DEFAULT_QUERY_NORMALIZATION.whitespace,
+    unicode: rule?.unicode ?? DEFAULT_QUERY_NORMALIZATION.unicode,
+    lowercase: rule?.lowercase ?? DEFAULT_QUERY_NORMALIZATION.lowercase,
+    sortFilters: rule?.sortFilters ?? DEFAULT_QUERY_NORMALIZATION.sortFilters,
+  };
+}
+
+function normalizeSearchParams<T extends Record<string, unknown>>(
+  request: T,
+  options: QueryNormalization
+): T {
+  const normalized: Record<string, unknown> = { ...request };
+  for (const key of NORMALIZED_QUERY_PARAMS) {
+    const value = normalized[key];
+    if (typeof value === "string") {
+      normalized[key] = normalizeQuery(value, options);
+    }
+  }
+  if (options.sortFilters) {
+    for (const key of NORMALIZED_FILTER_PARAMS) {
+      if (key in normalized) {
+        normalized[key] = normalizeFilters(normalized[key]);
+      }
+    }
+  }
+  if (typeof normalized.params === "string") {
+    normalized.params = normalizeParamsString(normalized.params, options);
+  }
+  return normalized as T;
+}
+
+/** Applies the same normalizations inside a `params` string; unchanged strings are kept verbatim. */
+function normalizeParamsString(source: string, options: QueryNormalization): string {
+  const params = new URLSearchParams(source);
+  let changed = false;
+  for (const key of new Set(params.keys())) {
+    const value = params.get(key) as string;
+    let next = value;
+    if (NORMALIZED_QUERY_PARAMS.includes(key)) {
+      next = normalizeQuery(value, options);
+    } else if (options.sortFilters && NORMALIZED_FILTER_PARAMS.includes(key)) {
+      next = normalizeFilterParam(value);
+    }
+    if (next !== value) {
+      params.set(key, next);
+      changed = true;
+    }
+  }
+  return changed ? params.toString() : source;
+}
+
+function normalizeQuery(query: string, options: QueryNormalization): string {
+  let result = query;
+  if (options.unicode) {
+    result = result.normalize("NFC");
+  }
+  if (options.whitespace) {
+    // A trailing space turns off prefix matching on the last word, so it is
+    // collapsed like any other run of whitespace but never dropped
+    result = result.trimStart().replace(/\s+/g, " ");
+  }
+  if (options.lowercase) {
+    result = result.toLowerCase();
+  }
+  return result;
+}
+
+// Filters in a params string are JSON arrays; a plain filter string is left alone
+function normalizeFilterParam(value: string): string {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? JSON.stringify(normalizeFilters(parsed)) : value;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Sorts and dedupes a filter array and each of its OR groups. Both levels are
+ * commutative in Algolia, so the order never changes which hits match.
+ */
+function normalizeFilters(value: unknown): unknown {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  return sortUnique(
+    value.map((filter) => (Array.isArray(filter) ? sortUnique(filter) : filter))
+  );
+}
+
+function sortUnique(values: unknown[]): unknown[] {
+  const byKey = new Map(values.map((value) => [JSON.stringify(value), value]));
+  return [...byKey.keys()].sort().map((key) => byKey.get(key));
+}
+
+/** Index names from the path (`/1/indexes/{index}/...`) and from every sub-request. */
+function getIndexNames(pathname: string, body?: IncomingBody): string[] {
+  const names = new Set<string>();
+  const pathIndex = pathname.match(/^\/1\/indexes\/([^/]+)/)?.[1];
+  if (pathIndex && pathIndex !== "*") {
+    try {
+      names.add(decodeURIComponent(pathIndex));
+    } catch {
+      names.add(pathIndex);
+    }
+  }
+  for (const req of body?.requests || []) {
+    if (typeof req.indexName === "string" && req.indexName) {
+      names.add(req.indexName);
+    }
+  }
+  return [...names].sort();
+}
+
+async function deriveCacheKey(
+  body: IncomingBody,
+  pathname: string,
+  isSSRRequest: boolean
+): Promise<string> {
+  const material = JSON.stringify({
+    path: pathname,
+    ssr: isSSRRequest,
+    indexes: getIndexNames(pathname, body),
+    body: canonicalizeBody(body),
+  });
+  return sha256Hex(material);
+}
+
+/**
+ * Cache key for GET requests such as `/1/indexes/{index}?query=...` or
+ * `/1/indexes/{index}/{objectID}`: the path plus the sorted query string, without
+ * credentials, agent and cache key params.
+ */
+async function deriveUrlCacheKey(
+  searchParams: URLSearchParams,
+  pathname: string,
+  isSSRRequest: boolean
+): Promise<string> {
+  const params = [...searchParams.entries()]
+    .filter(([key]) => !NON_KEY_PARAMS.has(key.toLowerCase()))
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)
+    );
+  const material = JSON.stringify({
+    path: pathname,
+    ssr: isSSRRequest,
+    indexes: getIndexNames(pathname),
+    params,
+  });
+  return sha256Hex(material);
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input)
+  );
+  return toHex(digest);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Extracts the queries of every search request: `requests[]` for multi-queries,
+ * the body itself for single-index `/query` calls. Throws on shapes Algolia
+ * would reject anyway.
+ */
+function parseSearchRequests(
+  body: IncomingBody,
+  route: ProxyRoute,
+  pathname: string
+): ParsedSearchRequest[] {
+  if (body.requests !== undefined) {
+    if (!Array.isArray(body.requests)) {
+      throw new Error("`requests` must be an array");
+    }
+    return body.requests.map((req, position) => parseSearchRequest(req, position));
+  }
+  return route.name === "query"
+    ? [parseSearchRequest({ indexName: getIndexNames(pathname)[0], ...body }, 0)]
+    : [];
+}
+
+function parseSearchRequest(request: unknown, position: number): ParsedSearchRequest {
+  if (request === null || typeof request !== "object" || Array.isArray(request)) {
+    throw new Error(`requests[${position}] must be an object`);
+  }
+  const { indexName, query, params } = request as SearchRequest;
+  const queries: string[] = [];
+  if (query !== undefined && query !== null) {
+    queries.push(String(query));
+  }
+  if (typeof params === "string") {
+    const paramsQuery = new URLSearchParams(params).get("query");
+    if (paramsQuery !== null) {
+      queries.push(paramsQuery);
     }
-  } else {
-    algoliaParams.set("x-algolia-agent", SEARCH_AGENT);
   }
+  return {
+    position,
+    indexName: typeof indexName === "string" ? indexName : undefined,
+    queries,
+  };
+}
 
-  const search = `?${algoliaParams.toString()}`;
+function getValidationPolicy(env: Env): ValidationPolicy {
+  const policy = readJsonConfig<Partial<ValidationPolicy>>(
+    "VALIDATION_POLICY",
+    env.VALIDATION_POLICY,
+    {}
+  );
+  return {
+    mode: policy.mode === "reject" || policy.mode === "partial" ? policy.mode : "batch",
+    rules: Array.isArray(policy.rules) ? policy.rules : [],
+  };
+}
 
-  const hosts = getHosts(env?.ALGOLIA_APPLICATION_ID || "");
-  return await tryAlgoliaHosts(
-    pathname,
-    search,
-    ctx.method,
-    headers,
-    bodyStr,
-    hosts,
-    isSSRRequest,
-    userAgent
+function resolveValidationRule(
+  rules: ValidationRule[],
+  indexName: string | undefined
+): Required<Omit<ValidationRule, "index">> {
+  const rule = rules.find(
+    (r) => !r.index || (indexName !== undefined && matchesGlob(r.index, indexName))
   );
+  return {
+    minLength: rule?.minLength ?? DEFAULT_VALIDATION_RULE.minLength,
+    maxLength: rule?.maxLength ?? DEFAULT_VALIDATION_RULE.maxLength,
+    allowEmpty: rule?.allowEmpty ?? DEFAULT_VALIDATION_RULE.allowEmpty,
+    charset: rule?.charset ?? DEFAULT_VALIDATION_RULE.charset,
+  };
 }
 
-function isInvalidQuery(requests: SearchRequest[]): {
-  invalid: boolean;
-  errorType?: ValidationErrorType;
-  query?: string;
-} {
-  if (requests.every((req) => req.query === "" || req.query === undefined)) {
-    return { invalid: false };
-  }
-
-  let hasLongQuery = false;
-  for (const req of requests) {
-    const queryValue = req.query;
-    if (queryValue) {
-      const query = String(queryValue);
-      if (query.length >= 3) {
-        hasLongQuery = true;
-      }
-      if (!ALLOWED_QUERY_REGEX.test(query)) {
-        return {
-          invalid: true,
-          errorType: 'invalid_characters',
-          query,
-        };
-      }
+/** Checks one search request against the rule for its index. */
+function validateSearchRequest(
+  request: ParsedSearchRequest,
+  rules: ValidationRule[]
+): ValidationFailure | undefined {
+  const rule = resolveValidationRule(rules, request.indexName);
+  const failure = (errorType: ValidationErrorType, error: string, query?: string) => ({
+    position: request.position,
+    indexName: request.indexName,
+    query,
+    errorType,
+    error,
+  });
+
+  const queries = request.queries.filter(Boolean);
+  if (queries.length === 0) {
+    return rule.allowEmpty ? undefined : failure('empty_query', 'Query must not be empty');
+  }
+
+  // Validate the composed form so decomposed (NFD) input is not rejected
+  // before normalization gets to it
+  const charset = QUERY_CHARSETS[rule.charset] ?? ALLOWED_QUERY_REGEX;
+  const invalid = queries
+    .map((value) => value.normalize("NFC"))
+    .find((query) => !charset.test(query));
+  if (invalid !== undefined) {
+    return failure('invalid_characters', 'Query contains invalid characters', invalid);
+  }
+  for (const value of queries) {
+    const query = value.normalize("NFC");
+    if (query.length < rule.minLength) {
+      return failure(
+        'too_short',
+        `Query too short (minimum ${rule.minLength} characters)`,
+        value
+      );
+    }
+    if (query.length > rule.maxLength) {
+      return failure(
+        'too_long',
+        `Query too long (maximum ${rule.maxLength} characters)`,
+        value
+      );
     }
   }
-  return hasLongQuery
-    ? { invalid: false }
-    : {
-      invalid: true,
-      errorType: 'too_short',
-      query: requests.find((r) => r.query)?.query?.toString(),
-    };
+  return undefined;
+}
+
+/** Whether one of the request's queries reaches the minimum length of its index. */
+function hasLongEnoughQuery(request: ParsedSearchRequest, rules: ValidationRule[]): boolean {
+  const { minLength } = resolveValidationRule(rules, request.indexName);
+  return request.queries.some((query) => query.normalize("NFC").length >= minLength);
 }
 
-async function parseRequestBody(request: Request): Promise<ParseResult> {
+async function parseRequestBody(
+  request: Request,
+  route: ProxyRoute,
+  pathname: string,
+  env: Env
+): Promise<ParseResult> {
   try {
     const body = (await request.json()) as IncomingBody;
-    if (body?.requests) {
-      const validation = isInvalidQuery(body.requests);
-      if (validation.invalid) {
-        const errorType = validation.errorType ?? 'invalid_characters';
+    if (body !== null && typeof body === "object") {
+      const policy = getValidationPolicy(env);
+      const requests = parseSearchRequests(body, route, pathname);
+      let failures = requests
+        .map((req) => validateSearchRequest(req, policy.rules))
+        .filter((failure): failure is ValidationFailure => failure !== undefined);
+      if (
+        policy.mode === "batch" &&
+        requests.some((req) => hasLongEnoughQuery(req, policy.rules))
+      ) {
+        failures = failures.filter((failure) => failure.errorType !== 'too_short');
+      }
+
+      if (failures.length > 0 && policy.mode === "partial" && Array.isArray(body.requests)) {
+        const positions = new Set(failures.map((failure) => failure.position));
+        return {
+          body: {
+            ...body,
+            requests: body.requests.filter((_, position) => !positions.has(position)),
+          },
+          rejected: failures,
+        };
+      }
+      if (failures.length > 0) {
+        const [failure] = failures;
         const errorDetail: ErrorDetail = {
-          error:
-            errorType === 'too_short'
-              ? 'Query too short (minimum 3 characters)'
-              : 'Query contains invalid characters',
-          errorType,
-          details: validation.query ? `Query: "${validation.query}"` : undefined,
+          error: failure.error,
+          errorType: failure.errorType,
+          details: failure.query
+            ? `Request ${failure.position}: Query: "${failure.query}"`
+            : `Request ${failure.position}`,
+          requestIndex: failure.position,
           timestamp: new Date().toISOString(),
         };
         return {
@@ -414,6 +3331,62 @@ async function parseRequestBody(request: Request): Promise<ParseResult> {
   }
 }
 
+/**
+ * Puts an empty result for every sub-request rejected in partial validation
+ * mode back at its original position, so clients see the `results` they asked for.
+ */
+async function mergeRejectedResults(
+  response: Response,
+  rejected: ValidationFailure[]
+): Promise<Response> {
+  if (!response.ok) {
+    return response;
+  }
+  let json: { results?: unknown[] };
+  try {
+    json = (await response.clone().json()) as { results?: unknown[] };
+  } catch {
+    return response;
+  }
+  if (!Array.isArray(json.results)) {
+    return response;
+  }
+
+  const results = [...json.results];
+  for (const failure of [...rejected].sort((a, b) => a.position - b.position)) {
+    results.splice(failure.position, 0, emptySearchResult(failure));
+  }
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  return new Response(JSON.stringify({ ...json, results }), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+function emptySearchResult(failure: ValidationFailure): Record<string, unknown> {
+  return {
+    hits: [],
+    nbHits: 0,
+    page: 0,
+    nbPages: 0,
+    hitsPerPage: 0,
+    exhaustiveNbHits: true,
+    processingTimeMS: 0,
+    query: failure.query ?? "",
+    params: "",
+    index: failure.indexName,
+  };
+}
+
+/**
+ * Tries the hosts in health order until one answers successfully. Every attempt
+ * is bounded by the connect and attempt timeouts, and no attempt starts or runs
+ * past the overall budget. With hedging, the next host is started when the
+ * current attempt has not answered within `hedgeAfterMs`; the first successful
+ * response wins and the other attempts are cancelled.
+ */
 async function tryAlgoliaHosts(
   pathname: string,
   search: string,
@@ -422,46 +3395,67 @@ async function tryAlgoliaHosts(
   bodyStr?: string,
   hosts?: readonly string[],
   isSSRRequest?: boolean,
-  userAgent?: string
+  userAgent?: string,
+  timeouts: UpstreamTimeouts = DEFAULT_UPSTREAM_TIMEOUTS
 ): Promise<Response> {
   const attempts: HostAttempt[] = [];
+  const deadline = Date.now() + timeouts.budgetMs;
+  const queue = orderHosts(hosts || [], Date.now());
+  const inflight = new Map<
+    string,
+    { controller: AbortController; outcome: Promise<HostOutcome> }
+  >();
 
-  for (const host of hosts || []) {
-    try {
-      const url = "https://" + host + pathname + search;
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: bodyStr,
-      });
-
-      const attempt: HostAttempt = {
+  const launch = () => {
+    const host = queue.shift() as string;
+    const controller = new AbortController();
+    const url = "https://" + host + pathname + search;
+    inflight.set(host, {
+      controller,
+      outcome: attemptHost(
         host,
-        status: response.status,
-        ok: response.ok,
-      };
+        url,
+        { method, headers, body: bodyStr },
+        controller,
+        timeouts,
+        deadline
+      ),
+    });
+  };
 
-      // Capture error response body for failed requests
-      if (!response.ok) {
-        try {
-          const errorBody = await response.clone().text();
-          attempt.error = errorBody;
-        } catch (e) {
-          attempt.error = `Failed to read error body: ${String(e)}`;
-        }
-      }
+  while (inflight.size > 0 || (queue.length > 0 && Date.now() < deadline)) {
+    if (inflight.size === 0) {
+      launch();
+    }
 
-      attempts.push(attempt);
+    const settled = Promise.race([...inflight.values()].map((entry) => entry.outcome));
+    const hedge =
+      timeouts.hedgeAfterMs > 0 && queue.length > 0
+        ? delay(timeouts.hedgeAfterMs)
+        : undefined;
+    const outcome = await (hedge ? Promise.race([settled, hedge.promise]) : settled);
+    hedge?.cancel();
 
-      if (response.ok) {
-        return response;
+    if (!outcome) {
+      // Hedge: the running attempts are slow, start the next host alongside them
+      if (Date.now() < deadline) {
+        launch();
       }
-    } catch (e) {
-      attempts.push({
-        host,
-        error: String(e),
-      });
-      // Network error, continue to next host
+      continue;
+    }
+
+    inflight.delete(outcome.attempt.host);
+    attempts.push(outcome.attempt);
+    if (outcome.attempt.timeout === "budget") {
+      queue.length = 0;
+    }
+    if (outcome.response) {
+      for (const entry of inflight.values()) {
+        entry.controller.abort(CANCELLED);
+      }
+      outcome.response.headers.set(UPSTREAM_HOST_HEADER, outcome.attempt.host);
+      outcome.response.headers.set(UPSTREAM_ATTEMPTS_HEADER, String(attempts.length));
+      return outcome.response;
     }
   }
 
@@ -474,49 +3468,347 @@ async function tryAlgoliaHosts(
     error: 'All Algolia hosts failed',
     errorType: 'algolia',
     details: `Tried ${attempts.length} host(s): ${attempts
-      .map((a) => `${a.host}${a.status ? ` (${a.status})` : ''}`)
+      .map((a) => `${a.host}${a.status ? ` (${a.status})` : ''}${a.timeout ? ` (timeout: ${a.timeout})` : ''}`)
       .join(', ')}`,
-    algolia_url: sampleUrl,
+    algolia_url: algoliaHost,
     algolia_method: method,
     algolia_headers: headers,
     algolia_body: bodyStr,
     timestamp: new Date().toISOString(),
   };
 
-  return new Response(JSON.stringify(errorDetail), {
+  return new Response(JSON.stringify(redactValue(errorDetail)), {
     status: 502,
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      [UPSTREAM_ATTEMPTS_HEADER]: String(attempts.length),
+    },
+  });
+}
+
+/**
+ * One upstream attempt. The body is read within the attempt, so a host that
+ * sends headers and then stalls still runs into the attempt timeout. Cancelled
+ * attempts (hedging losers) do not count against the host's health.
+ */
+async function attemptHost(
+  host: string,
+  url: string,
+  init: RequestInit,
+  controller: AbortController,
+  timeouts: UpstreamTimeouts,
+  deadline: number
+): Promise<HostOutcome> {
+  const startedAt = Date.now();
+  const limitMs = Math.min(timeouts.attemptMs, Math.max(deadline - startedAt, 0));
+  const totalTimer = setTimeout(
+    () => controller.abort(limitMs < timeouts.attemptMs ? "budget" : "total"),
+    limitMs
+  );
+  const connectTimer = setTimeout(() => controller.abort("connect"), timeouts.connectMs);
+  const aborted = rejectOnAbort(controller.signal);
+
+  try {
+    const response = await Promise.race([
+      fetch(url, { ...init, signal: controller.signal }),
+      aborted,
+    ]);
+    clearTimeout(connectTimer);
+    const body = await Promise.race([response.arrayBuffer(), aborted]);
+    const durationMs = Date.now() - startedAt;
+
+    // 4xx responses are about the request, not the host
+    recordHostResult(host, response.status < 500, durationMs);
+    const attempt: HostAttempt = {
+      host,
+      status: response.status,
+      ok: response.ok,
+      durationMs,
+    };
+    if (!response.ok) {
+      // Capture error response body for failed requests
+      attempt.error = new TextDecoder().decode(body);
+      return { attempt };
+    }
+    return { attempt, response: new Response(body, response) };
+  } catch (e) {
+    const durationMs = Date.now() - startedAt;
+    const reason: unknown = controller.signal.aborted ? controller.signal.reason : undefined;
+    if (reason === CANCELLED) {
+      releaseProbe(host);
+      return { attempt: { host, error: "Cancelled after another host answered", durationMs } };
+    }
+
+    recordHostResult(host, false);
+    if (reason === "connect" || reason === "total" || reason === "budget") {
+      return {
+        attempt: {
+          host,
+          timeout: reason,
+          error: `Timed out (${reason}) after ${durationMs}ms`,
+          durationMs,
+        },
+      };
+    }
+    // Network error, continue to next host
+    return { attempt: { host, error: String(e), durationMs } };
+  } finally {
+    clearTimeout(totalTimer);
+    clearTimeout(connectTimer);
+  }
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  const aborted = new Promise<never>((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
   });
+  // Only observed while an attempt is waiting on it
+  aborted.catch(() => {});
+  return aborted;
+}
+
+function delay(ms: number): { promise: Promise<undefined>; cancel: () => void } {
+  let resolve: (value: undefined) => void = () => {};
+  const promise = new Promise<undefined>((r) => (resolve = r));
+  const timer = setTimeout(() => resolve(undefined), ms);
+  return { promise, cancel: () => clearTimeout(timer) };
+}
+
+/**
+ * Orders hosts for one request. Hosts with a closed circuit come first: measured
+ * hosts trade places by observed latency, fastest first, while unmeasured hosts
+ * keep their configured position, so the DSN host leads until a sampled host
+ * proves faster. A host whose cooldown has passed is half-opened and tried
+ * first by a single request.
+ * Hosts with an open circuit are only tried once all others have failed.
+ */
+function orderHosts(hosts: readonly string[], now: number): string[] {
+  const available: string[] = [];
+  const open: string[] = [];
+  let probe: string | undefined;
+
+  for (const host of hosts) {
+    const health = hostHealth.get(host);
+    if (health?.openedAt === undefined) {
+      available.push(host);
+    } else if (
+      !probe &&
+      !health.probing &&
+      now - health.openedAt >= CIRCUIT_COOLDOWN_MS
+    ) {
+      health.probing = true;
+      probe = host;
+      void logEvent("log", `[CIRCUIT] Half-opened circuit for ${host}, probing`, {
+        host,
+        consecutive_failures: health.consecutiveFailures,
+      });
+    } else {
+      open.push(host);
+    }
+  }
+
+  const latency = (host: string) => hostHealth.get(host)?.latencyMs;
+  const byLatency = available
+    .filter((host) => latency(host) !== undefined)
+    .sort((a, b) => (latency(a) as number) - (latency(b) as number));
+  let next = 0;
+  const ordered = available.map((host) =>
+    latency(host) === undefined ? host : byLatency[next++]
+  );
+  return [...(probe ? [probe] : []), ...ordered, ...open];
+}
+
+/** Lets another request probe a half-open host when this one's attempt was cancelled. */
+function releaseProbe(host: string): void {
+  const health = hostHealth.get(host);
+  if (health) {
+    health.probing = false;
+  }
+}
+
+function recordHostResult(host: string, ok: boolean, latencyMs?: number): void {
+  const health = hostHealth.get(host) || { consecutiveFailures: 0 };
+  hostHealth.set(host, health);
+  const wasOpen = health.openedAt !== undefined;
+  health.probing = false;
+
+  if (ok) {
+    if (wasOpen) {
+      void logEvent("log", `[CIRCUIT] Closed circuit for ${host}`, {
+        host,
+        consecutive_failures: health.consecutiveFailures,
+      });
+    }
+    health.consecutiveFailures = 0;
+    health.openedAt = undefined;
+    if (latencyMs !== undefined) {
+      health.latencyMs =
+        health.latencyMs === undefined
+          ? latencyMs
+          : health.latencyMs + LATENCY_SMOOTHING * (latencyMs - health.latencyMs);
+    }
+    return;
+  }
+
+  health.consecutiveFailures++;
+  if (wasOpen || health.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    health.openedAt = Date.now();
+    void logEvent("warn", `[CIRCUIT] ${wasOpen ? "Reopened" : "Opened"} circuit for ${host}`, {
+      host,
+      consecutive_failures: health.consecutiveFailures,
+      cooldown_ms: CIRCUIT_COOLDOWN_MS,
+    });
+  }
+}
+
+function getCorsPolicy(env: Env, tenant?: Tenant): CorsPolicy {
+  const overrides = readJsonConfig<Partial<CorsPolicy>>(
+    "CORS_POLICY",
+    env.CORS_POLICY,
+    {}
+  );
+  return {
+    ...DEFAULT_CORS_POLICY,
+    ...checkCorsOverrides("CORS_POLICY", overrides),
+    ...(tenant?.cors && checkCorsOverrides(`TENANTS[${tenant.id}].cors`, tenant.cors)),
+  };
+}
+
+/**
+ * Keeps the overrides whose value has the type of their CorsPolicy field.
+ * Unknown or mistyped fields are logged and keep their default.
+ */
+function checkCorsOverrides(name: string, overrides: unknown): Partial<CorsPolicy> {
+  if (overrides === null || typeof overrides !== "object" || Array.isArray(overrides)) {
+    void logEvent("error", `[CONFIG] Invalid ${name}, using defaults`, {
+      error: "Expected a JSON object",
+    });
+    return {};
+  }
+  const checked = checkedCorsOverrides.get(overrides);
+  if (checked) {
+    return checked;
+  }
+
+  const valid: Record<string, unknown> = {};
+  const invalidFields: string[] = [];
+  for (const [field, value] of Object.entries(overrides)) {
+    if (CORS_FIELD_CHECKS[field as keyof CorsPolicy]?.(value)) {
+      valid[field] = value;
+    } else {
+      invalidFields.push(field);
+    }
+  }
+  if (invalidFields.length > 0) {
+    void logEvent("error", `[CONFIG] Invalid ${name} fields, using defaults for them`, {
+      fields: invalidFields,
+    });
+  }
+  checkedCorsOverrides.set(overrides, valid);
+  return valid;
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
 }
 
-function isOriginAllowed(origin: string): boolean {
+function isOriginAllowed(origin: string, policy: CorsPolicy): boolean {
   return (
-    ALLOWED_ORIGIN_PATTERN.test(origin) ||
-    LOCALHOST_PATTERN.test(origin) ||
-    origin === CLOUDFLARE_DASHBOARD
+    policy.origins.includes(origin) ||
+    policy.originPatterns.some((pattern) => matchesOriginPattern(pattern, origin)) ||
+    (policy.allowLocalhost && LOCALHOST_PATTERN.test(origin))
   );
 }
 
-function addCorsHeaders(
+function matchesOriginPattern(pattern: string, origin: string): boolean {
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[a-z0-9-]+(?:\\.[a-z0-9-]+)*") +
+      "$"
+  );
+  return regex.test(origin);
+}
+
+/**
+ * CORS headers for a request origin. Disallowed (or missing) origins get no
+ * Access-Control-Allow-Origin at all, so browsers block the response.
+ */
+function getCorsHeaders(origin: string, policy: CorsPolicy): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": policy.methods.join(", "),
+    "Access-Control-Allow-Headers": policy.headers.join(", "),
+    "Access-Control-Max-Age": String(policy.maxAge),
+    Vary: "Origin",
+  };
+  if (isOriginAllowed(origin, policy)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    if (policy.credentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+  }
+  return headers;
+}
+
+function addCorsHeaders(response: Response, ctx: RequestContext, env: Env): Response {
+  const headers = new Headers(response.headers);
+  const policy = getCorsPolicy(env, ctx.tenant);
+  for (const [name, value] of Object.entries(getCorsHeaders(ctx.origin, policy))) {
+    headers.set(name, value);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Adds X-Cache and X-Request-Id to every proxied response and drops the
+ * internal cache headers. Verbose headers (cache age, upstream host and
+ * attempts, Server-Timing) are only added for debug-enabled callers, see
+ * isDebugAllowed.
+ */
+function addDebugHeaders(
   response: Response,
-  origin: string | null,
-  isSSRRequest: boolean
+  ctx: RequestContext,
+  debug: {
+    cacheStatus: CacheStatus;
+    upstream?: UpstreamInfo;
+    timings: ServerTimings;
+    verbose: boolean;
+  }
 ): Response {
   const headers = new Headers(response.headers);
+  headers.set("X-Cache", debug.cacheStatus);
+  headers.set("X-Request-Id", ctx.requestId);
 
-  if (isSSRRequest || !origin || !isOriginAllowed(origin)) {
-    headers.set("Access-Control-Allow-Origin", "https://www.avocadostore.de");
+  if (debug.verbose) {
+    if (headers.has(CACHED_AT_HEADER)) {
+      headers.set("X-Cache-Age", String(Math.floor(getCacheAge(response))));
+    }
+    if (debug.upstream) {
+      headers.set("X-Upstream-Host", debug.upstream.host || "none");
+      headers.set("X-Upstream-Attempts", String(debug.upstream.attempts));
+    }
+    const serverTiming = Object.entries(debug.timings)
+      .filter(([, duration]) => duration !== undefined)
+      .map(([phase, duration]) => `${phase};dur=${duration}`)
+      .concat(`total;dur=${Date.now() - ctx.receivedAt}`);
+    headers.set("Server-Timing", serverTiming.join(", "));
+    headers.set(
+      "Access-Control-Expose-Headers",
+      "X-Cache, X-Cache-Age, X-Upstream-Host, X-Upstream-Attempts, X-Request-Id, Server-Timing"
+    );
   } else {
-    headers.set("Access-Control-Allow-Origin", origin);
-    headers.set("Vary", "Origin");
+    headers.set("Access-Control-Expose-Headers", "X-Cache, X-Request-Id");
+  }
+  for (const name of INTERNAL_CACHE_HEADERS) {
+    headers.delete(name);
   }
-
-  headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  headers.set(
-    "Access-Control-Allow-Headers",
-    "Content-Type, x-algolia-agent, x-algolia-api-key, x-algolia-application-id, x-as-cache-key, x-ssr-request"
-  );
-  headers.set("Access-Control-Max-Age", "86400");
 
   return new Response(response.body, {
     status: response.status,
@@ -525,15 +3817,128 @@ function addCorsHeaders(
   });
 }
 
+/**
+ * Verbose debug headers are sent to origins matching a DEBUG_ORIGINS pattern
+ * and to callers sending the DEBUG_TOKEN in the x-as-debug header.
+ */
+function isDebugAllowed(request: Request, ctx: RequestContext, env: Env): boolean {
+  const token = request.headers.get(DEBUG_HEADER);
+  if (env.DEBUG_TOKEN && token && timingSafeEqualString(token, env.DEBUG_TOKEN)) {
+    return true;
+  }
+  if (!ctx.origin || ctx.origin === "*") {
+    return false;
+  }
+  const origins = readJsonConfig<string[]>(
+    "DEBUG_ORIGINS",
+    env.DEBUG_ORIGINS,
+    []
+  );
+  return origins.some((pattern) => matchesGlob(pattern, ctx.origin));
+}
+
+function readUpstreamInfo(response: Response): UpstreamInfo | undefined {
+  const attempts = response.headers.get(UPSTREAM_ATTEMPTS_HEADER);
+  if (attempts === null) {
+    return undefined;
+  }
+  return {
+    host: response.headers.get(UPSTREAM_HOST_HEADER) || undefined,
+    attempts: parseInt(attempts, 10) || 0,
+  };
+}
+
+function setUpstreamInfo(headers: Headers, upstream: UpstreamInfo): void {
+  if (upstream.host) {
+    headers.set(UPSTREAM_HOST_HEADER, upstream.host);
+  }
+  headers.set(UPSTREAM_ATTEMPTS_HEADER, String(upstream.attempts));
+}
+
+/** Drops the internal upstream headers before a response goes to the client. */
+function withoutUpstreamInfo(response: Response): Response {
+  if (!response.headers.has(UPSTREAM_ATTEMPTS_HEADER)) {
+    return response;
+  }
+  const stripped = new Response(response.body, response);
+  stripped.headers.delete(UPSTREAM_HOST_HEADER);
+  stripped.headers.delete(UPSTREAM_ATTEMPTS_HEADER);
+  return stripped;
+}
+
+/**
+ * Writes one data point per request to the METRICS Analytics Engine dataset:
+ * blobs [path, indices, ssr|client, cache status, upstream host, error type,
+ * method], doubles [status, duration ms, upstream attempts], indexed by the
+ * first index (or the path). Runs in `waitUntil`, off the response path.
+ */
+async function recordMetrics(
+  env: Env,
+  ctx: RequestContext,
+  response: Response,
+  details: { indexNames: string[]; cacheStatus: CacheStatus; upstream?: UpstreamInfo }
+): Promise<void> {
+  const durationMs = Date.now() - ctx.receivedAt;
+  const errorType = response.ok ? undefined : await readErrorType(response.clone());
+
+  try {
+    getMetricsSink(env).writeDataPoint({
+      indexes: [details.indexNames[0] || ctx.pathname],
+      blobs: [
+        ctx.pathname,
+        details.indexNames.join(","),
+        ctx.isSSRRequest ? "ssr" : "client",
+        details.cacheStatus,
+        details.upstream?.host || "",
+        errorType || "",
+        ctx.method,
+      ],
+      doubles: [response.status, durationMs, details.upstream?.attempts || 0],
+    });
+  } catch (e) {
+    await logEvent("error", "[METRICS] Failed to write data point", {
+      error: String(e),
+    });
+  }
+}
+
+async function readErrorType(response: Response): Promise<string | undefined> {
+  try {
+    const errorData = (await response.json()) as Partial<ErrorDetail>;
+    return typeof errorData.errorType === "string" ? errorData.errorType : "algolia";
+  } catch {
+    // Raw Algolia error response
+    return "algolia";
+  }
+}
+
+function getMetricsSink(env: Env): AnalyticsEngineDataset {
+  if (env.METRICS) {
+    return env.METRICS;
+  }
+  return {
+    writeDataPoint(point?: AnalyticsEngineDataPoint) {
+      if (point) {
+        localMetrics.push(point);
+        if (localMetrics.length > LOCAL_METRICS_LIMIT) {
+          localMetrics.shift();
+        }
+      }
+    },
+  };
+}
+
 async function logRequest(
   ctx: RequestContext,
   requestHeaders: Headers,
   response: Response,
   duration: number,
-  isCacheHit: boolean,
+  cacheStatus: CacheStatus,
   bodyStr?: string
 ): Promise<void> {
   const logContext: Record<string, unknown> = {
+    request_id: ctx.requestId,
+    tenant: ctx.tenant.id,
     origin: ctx.origin,
     url: ctx.url.toString(),
     method: ctx.method,
@@ -542,7 +3947,8 @@ async function logRequest(
     pathname: ctx.pathname,
     user_agent: requestHeaders.get("User-Agent") || "unknown",
     is_ssr_request: ctx.isSSRRequest,
-    cache_hit: isCacheHit,
+    cache_hit: cacheStatus === "HIT" || cacheStatus === "STALE",
+    cache_status: cacheStatus,
   };
 
   const queryParams: Record<string, string> = {};
@@ -623,14 +4029,15 @@ async function logEvent(
   context: Record<string, unknown> = {}
 ): Promise<void> {
   try {
-    const log: LogEntry = {
+    const fields = redaction.hashQueries ? await hashQueries(context) : context;
+    const log = redactValue({
       message,
       status: level,
       timestamp: new Date().toISOString(),
       service: SERVICE_NAME,
       env: ENVIRONMENT,
-      ...context,
-    };
+      ...(fields as Record<string, unknown>),
+    }) as LogEntry;
 
     // Log to Cloudflare's logging infrastructure (stdout/stderr)
     // This will be captured by "wrangler tail" and Cloudflare Workers Logs
@@ -647,3 +4054,128 @@ async function logEvent(
   }
   return Promise.resolve();
 }
+
+function configureRedaction(env: Env): void {
+  let signingSecrets: string[] = [];
+  try {
+    signingSecrets = Object.values(
+      JSON.parse(env.SSR_SIGNING_KEYS || "{}") as Record<string, string>
+    );
+  } catch {
+    // Invalid keys are reported by verifySsrToken
+  }
+  redaction.secrets = [
+    env.ALGOLIA_API_KEY,
+    env.ADMIN_API_TOKEN,
+    env.REINDEX_WEBHOOK_SECRET,
+    ...signingSecrets,
+    ...getTenantConfigs(env).map((tenant) => toTenant(tenant, env).apiKey),
+  ].filter(
+    (secret): secret is string =>
+      typeof secret === "string" && secret.length >= MIN_REDACTED_SECRET_LENGTH
+  );
+  redaction.hashQueries = env.LOG_QUERY_MODE === "hash";
+}
+
+/**
+ * Masks API keys, SSR tokens and signing secrets, cookies, IPs and user tokens
+ * in a log context or error body, by field name and inside strings.
+ */
+function redactValue(value: unknown, key = ""): unknown {
+  if (SENSITIVE_KEYS.has(key.toLowerCase()) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item));
+  }
+  if (value !== null && typeof value === "object") {
+    const redacted: Record<string, unknown> = {};
+    for (const [field, fieldValue] of Object.entries(value)) {
+      redacted[field] = redactValue(fieldValue, field);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+function redactString(value: string): string {
+  let redacted = value
+    .replace(SENSITIVE_PARAM_PATTERN, `$1$2${REDACTED}`)
+    .replace(SENSITIVE_JSON_PATTERN, `$1${REDACTED}"`)
+    .replace(IPV4_PATTERN, REDACTED)
+    .replace(IPV6_PATTERN, REDACTED);
+  for (const secret of redaction.secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * Replaces search queries (`query`, `facetQuery`, also inside `params` strings,
+ * logged URLs, error details and serialized bodies) with a short SHA-256
+ * digest, so identical queries can still be grouped without logging what users
+ * typed.
+ */
+async function hashQueries(value: unknown, key = ""): Promise<unknown> {
+  if (typeof value === "string") {
+    if (key === "query" || key === "facetQuery") {
+      return hashQuery(value);
+    }
+    if (key === "params") {
+      return hashSearchParams(value);
+    }
+    if (key === "url" || key === "algolia_url") {
+      try {
+        const url = new URL(value);
+        url.search = await hashSearchParams(url.search);
+        return url.toString();
+      } catch {
+        // Not a URL, keep as is
+      }
+    }
+    if (key === "error_details") {
+      // Validation details quote the query verbatim: `Request 0: Query: "..."`
+      const match = /^(.*Query: ")(.*)"$/s.exec(value);
+      if (match) {
+        return `${match[1]}${await hashQuery(match[2])}"`;
+      }
+    }
+    if (value.startsWith("{")) {
+      try {
+        return JSON.stringify(await hashQueries(JSON.parse(value)));
+      } catch {
+        // Not JSON, keep as is
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => hashQueries(item)));
+  }
+  if (value !== null && typeof value === "object") {
+    const hashed: Record<string, unknown> = {};
+    for (const [field, fieldValue] of Object.entries(value)) {
+      hashed[field] = await hashQueries(fieldValue, field);
+    }
+    return hashed;
+  }
+  return value;
+}
+
+async function hashSearchParams(search: string): Promise<string> {
+  const params = new URLSearchParams(search);
+  for (const name of ["query", "facetQuery"]) {
+    const query = params.get(name);
+    if (query !== null) {
+      params.set(name, await hashQuery(query));
+    }
+  }
+  return params.toString();
+}
+
+async function hashQuery(query: string): Promise<string> {
+  return `sha256:${(await sha256Hex(query)).slice(0, 16)}`;
+}
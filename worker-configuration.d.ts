@@ -4,12 +4,40 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "CacheLock" | "CacheKeyRegistry" | "RateLimiter";
 	}
 	interface Env {
 		CACHE_TTL_SSR: "0" | "28800";
 		CACHE_TTL_CLIENT: "0";
+		CACHE_STALE_WHILE_REVALIDATE: "0" | "3600";
+		CACHE_STALE_IF_ERROR: "0" | "86400";
+		CACHE_COALESCE_MODE: "isolate" | "durable_object";
+		CACHE_SPLIT_QUERIES: "true";
+		CACHE_TTL_POLICY: "[]";
+		QUERY_NORMALIZATION: "[]";
+		VALIDATION_POLICY: "{}";
+		TENANTS: "[]";
+		RESPONSE_SLIMMING: "[]";
+		RATE_LIMIT_POLICY: "{}";
+		ALGOLIA_KEY_POLICY: "{\"ssr\":{\"restrictIndices\":[\"products_*\"]},\"client\":{\"restrictIndices\":[\"products_*\"]}}";
+		ALLOWED_INDICES: "[\"*\"]";
+		FORWARD_CLIENT_IP: "false";
+		CORS_POLICY: "{\"allowLocalhost\":true}" | "{\"allowLocalhost\":false}";
+		CACHE_LOCK: DurableObjectNamespace<import("./src/index").CacheLock>;
+		CACHE_REGISTRY: DurableObjectNamespace<import("./src/index").CacheKeyRegistry>;
+		CACHE_GENERATIONS: KVNamespace;
+		METRICS: AnalyticsEngineDataset;
+		CF_VERSION_METADATA: WorkerVersionMetadata;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 		ALGOLIA_APPLICATION_ID: string;
 		ALGOLIA_API_KEY: string;
+		ADMIN_API_TOKEN: string;
+		READY_TOKEN: string;
+		REINDEX_WEBHOOK_SECRET: string;
+		DEBUG_TOKEN: string;
+		SSR_SIGNING_KEYS: string;
+		ALGOLIA_API_KEY_AT: string;
+		ALGOLIA_API_KEY_B2B: string;
 	}
 }
 interface Env extends Cloudflare.Env {}